@@ -4,21 +4,34 @@
  * Implements 2D and 3D Perlin noise for natural-looking patterns
  ***************************************************/
 
+import { Random } from "./random.js";
+
 export class Perlin {
   private perm: Uint8Array;
   private p: Uint8Array;
 
-  constructor() {
+  /**
+   * Creates a noise generator with a permutation drawn from the given PRNG.
+   * @param rng - Seeded random number generator (default: randomly seeded).
+   */
+  constructor(rng: Random = new Random()) {
     this.p = new Uint8Array(256);
     this.perm = new Uint8Array(512);
+    this.seed(rng);
+  }
 
+  /**
+   * Rebuilds the permutation table from the given PRNG.
+   * @param rng - Seeded random number generator.
+   */
+  public seed(rng: Random): void {
     // Fill p with [0..255]
     for (let i = 0; i < 256; i++) {
       this.p[i] = i;
     }
     // Shuffle p
     for (let i = 0; i < 256; i++) {
-      const r = Math.floor(Math.random() * 256);
+      const r = rng.nextInt(256);
       const tmp = this.p[i];
       this.p[i] = this.p[r];
       this.p[r] = tmp;
@@ -29,6 +42,27 @@ export class Perlin {
     }
   }
 
+  /**
+   * Gets a copy of the 256-entry permutation table, e.g. for snapshots.
+   * @returns The permutation table.
+   */
+  public getPermutation(): number[] {
+    return Array.from(this.p);
+  }
+
+  /**
+   * Restores a permutation table previously obtained from getPermutation().
+   * @param permutation - The 256-entry permutation table.
+   */
+  public setPermutation(permutation: ArrayLike<number>): void {
+    for (let i = 0; i < 256; i++) {
+      this.p[i] = permutation[i];
+    }
+    for (let i = 0; i < 512; i++) {
+      this.perm[i] = this.p[i & 255];
+    }
+  }
+
   private fade(t: number): number {
     return ((6 * t - 15) * t + 10) * t * t * t;
   }
@@ -0,0 +1,143 @@
+// src/branching.ts
+
+import {
+  BranchingModelName,
+  Config,
+  config as globalConfig,
+} from "./constants.js";
+import { Random } from "./random.js";
+import { HyphaTip } from "./simulation.js";
+
+/**
+ * branching.ts
+ *
+ * Models deciding when and how a hyphal tip branches. The simulation asks
+ * the active model once per tip per step and carries out its decision.
+ */
+
+/**
+ * Lateral branches grow out of the side of the hypha behind the tip;
+ * apical (dichotomous) branches split the tip itself into two diverging
+ * daughters.
+ */
+export type BranchType = "lateral" | "apical";
+
+/**
+ * What a branching model may look at when deciding for one tip.
+ */
+export interface BranchContext {
+  tip: HyphaTip;
+  nutrientLevel: number; // Nutrient concentration at the tip
+  countNearbyTips(radius: number): number; // Other live tips within radius
+}
+
+/**
+ * A decision to branch.
+ */
+export interface BranchDecision {
+  type: BranchType;
+  count: number; // Number of new tips to spawn
+}
+
+export interface BranchingModel {
+  /**
+   * Decides whether a tip branches this step.
+   * @param context - The tip and its surroundings.
+   * @param rng - Random number generator of the simulation.
+   * @returns The branch to make, or null to keep growing unbranched.
+   */
+  decide(context: BranchContext, rng: Random): BranchDecision | null;
+}
+
+/**
+ * The original heuristic: a fixed per-step chance scaled by the tip's own
+ * resource, fanning out fewer lateral branches the deeper the tip.
+ */
+export class LegacyBranchingModel implements BranchingModel {
+  /**
+   * @param config - Config providing the branching parameters.
+   */
+  constructor(private config: Config = globalConfig) {}
+
+  public decide(context: BranchContext, rng: Random): BranchDecision | null {
+    const { tip } = context;
+    const resourceRatio = tip.resource / this.config.INITIAL_RESOURCE_PER_TIP;
+    const adjustedBranchChance = this.config.BRANCH_CHANCE * resourceRatio;
+
+    if (
+      tip.depth >= this.config.MAX_BRANCH_DEPTH ||
+      rng.next() >= adjustedBranchChance
+    ) {
+      return null;
+    }
+
+    // Limit secondary branches based on depth to improve performance
+    const count = Math.min(
+      this.config.SECONDARY_FAN_COUNT,
+      Math.max(1, Math.floor(3 - tip.depth / 10)),
+    );
+    return { type: "lateral", count };
+  }
+}
+
+/**
+ * Branching driven by the tip's surroundings. Tips only branch once they
+ * have grown BRANCH_INTERVAL since their last branch point; the chance then
+ * saturates with the local nutrient level and is suppressed by nearby tips
+ * (apical dominance). Rich, uncrowded substrate thus grows dense foraging
+ * fronts while poor substrate is crossed by sparse exploratory hyphae.
+ */
+export class NutrientBranchingModel implements BranchingModel {
+  /**
+   * @param config - Config providing the branching parameters.
+   */
+  constructor(private config: Config = globalConfig) {}
+
+  public decide(context: BranchContext, rng: Random): BranchDecision | null {
+    const { tip, nutrientLevel } = context;
+    if (
+      tip.depth >= this.config.MAX_BRANCH_DEPTH ||
+      tip.sinceBranch < this.config.BRANCH_INTERVAL
+    ) {
+      return null;
+    }
+
+    const level = Math.max(0, nutrientLevel);
+    const nutrientFactor =
+      level / (level + this.config.BRANCH_NUTRIENT_SATURATION);
+    let chance = this.config.BRANCH_CHANCE * nutrientFactor;
+
+    if (this.config.APICAL_DOMINANCE_STRENGTH > 0) {
+      const neighbours = context.countNearbyTips(
+        this.config.APICAL_DOMINANCE_RADIUS,
+      );
+      chance /= 1 + this.config.APICAL_DOMINANCE_STRENGTH * neighbours;
+    }
+
+    if (rng.next() >= chance) {
+      return null;
+    }
+
+    return rng.next() < this.config.APICAL_BRANCH_FRACTION
+      ? { type: "apical", count: 1 }
+      : { type: "lateral", count: 1 };
+  }
+}
+
+/**
+ * Creates the branching model selected by name.
+ * @param name - Name of the model, as in config.BRANCHING_MODEL.
+ * @param config - Config providing the branching parameters.
+ * @returns The branching model.
+ */
+export function createBranchingModel(
+  name: BranchingModelName,
+  config: Config = globalConfig,
+): BranchingModel {
+  switch (name) {
+    case "legacy":
+      return new LegacyBranchingModel(config);
+    case "nutrient":
+      return new NutrientBranchingModel(config);
+  }
+}
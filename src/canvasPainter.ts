@@ -0,0 +1,249 @@
+// src/canvasPainter.ts
+
+import { Config, config as globalConfig } from "./constants.js";
+import {
+  FusionEvent,
+  GrowthType,
+  Point3D,
+  SegmentEvent,
+  SimulationObserver,
+} from "./simulation.js";
+import { WorldFrame } from "./worldFrame.js";
+
+/**
+ * canvasPainter.ts
+ *
+ * Draws a top-down 2D projection of the colony onto a canvas by
+ * observing segment events emitted by the Simulation. The centre of the
+ * world frame is drawn at the centre of the canvas.
+ */
+export class CanvasPainter implements SimulationObserver {
+  // Performance optimization: Color cache to avoid recalculating colors
+  private colorCache: Map<string, string> = new Map();
+
+  /**
+   * Constructor initializes the CanvasPainter.
+   * @param ctx - The 2D rendering context of the main canvas.
+   * @param width - Width of the canvas.
+   * @param height - Height of the canvas.
+   * @param frame - World frame shared with the simulation's environment.
+   * @param config - Colors and line widths to draw with.
+   */
+  constructor(
+    private ctx: CanvasRenderingContext2D,
+    private width: number,
+    private height: number,
+    private frame: WorldFrame,
+    private config: Config = globalConfig,
+  ) {}
+
+  /**
+   * Replaces the world frame, e.g. after the environment was reset.
+   * @param frame - The new world frame.
+   */
+  public setFrame(frame: WorldFrame): void {
+    this.frame = frame;
+  }
+
+  /**
+   * Draws each new hyphal segment.
+   * @param event - The segment event emitted by the simulation.
+   */
+  public onSegment(event: SegmentEvent): void {
+    this.drawSegment(
+      event.from.x,
+      event.from.y,
+      event.to.x,
+      event.to.y,
+      event.tip.growthType,
+      event.tip.depth,
+      event.nutrientLevel,
+    );
+  }
+
+  /**
+   * Draws the short bridge a fused tip makes to the existing network.
+   * @param event - The fusion event emitted by the simulation.
+   */
+  public onFusion(event: FusionEvent): void {
+    this.drawSegment(
+      event.from.x,
+      event.from.y,
+      event.to.x,
+      event.to.y,
+      event.tip.growthType,
+      event.tip.depth,
+      0,
+    );
+  }
+
+  /**
+   * Redraws a network edge that has thickened into a cord, wider in
+   * proportion to its radius.
+   * @param from - Start of the edge.
+   * @param to - End of the edge.
+   * @param type - Growth type of the hypha the edge belongs to.
+   * @param depth - Branch depth of the hypha the edge belongs to.
+   * @param widthScale - Edge radius relative to HYPHAL_RADIUS.
+   */
+  public drawCord(
+    from: Point3D,
+    to: Point3D,
+    type: GrowthType,
+    depth: number,
+    widthScale: number,
+  ): void {
+    this.drawSegment(from.x, from.y, to.x, to.y, type, depth, 0, widthScale);
+  }
+
+  /**
+   * Clears the canvas when the simulation is re-initialized.
+   */
+  public onReset(): void {
+    this.ctx.fillStyle = "rgba(0, 0, 0, 0)"; // Transparent background
+    this.clear();
+  }
+
+  /**
+   * Applies a mild fade to create a trailing effect.
+   */
+  public fade(): void {
+    this.ctx.fillStyle = `rgba(0, 0, 0, ${this.config.BACKGROUND_ALPHA})`;
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+
+  /**
+   * Clears the canvas and cached colors.
+   */
+  public clear(): void {
+    this.ctx.clearRect(0, 0, this.width, this.height);
+    this.colorCache.clear();
+  }
+
+  /**
+   * Gets a cached color or calculates and caches a new one
+   * @param hue - Color hue
+   * @param saturation - Color saturation
+   * @param lightness - Color lightness
+   * @param alpha - Color alpha
+   * @returns HSLA color string
+   */
+  private getCachedColor(
+    hue: number,
+    saturation: number,
+    lightness: number,
+    alpha: number,
+  ): string {
+    // Round values to reduce cache size
+    const roundedHue = Math.round(hue);
+    const roundedSat = Math.round(saturation);
+    const roundedLight = Math.round(lightness);
+    const roundedAlpha = Math.round(alpha * 100) / 100;
+
+    const key = `${roundedHue},${roundedSat},${roundedLight},${roundedAlpha}`;
+
+    if (!this.colorCache.has(key)) {
+      const color = `hsla(${roundedHue}, ${roundedSat}%, ${roundedLight}%, ${roundedAlpha})`;
+      this.colorCache.set(key, color);
+
+      // Keep cache size reasonable
+      if (this.colorCache.size > 1000) {
+        // Clear half the cache when it gets too large
+        const keys = Array.from(this.colorCache.keys());
+        for (let i = 0; i < 500; i++) {
+          this.colorCache.delete(keys[i]);
+        }
+      }
+    }
+
+    return this.colorCache.get(key)!;
+  }
+
+  /**
+   * Draws a line segment between two points with styling based on growth type, depth, and nutrient level.
+   * Optimized for performance.
+   * @param oldX - Starting X-coordinate.
+   * @param oldY - Starting Y-coordinate.
+   * @param newX - Ending X-coordinate.
+   * @param newY - Ending Y-coordinate.
+   * @param type - Type of growth ("main" or "secondary").
+   * @param depth - Depth of the current tip for lightness calculation.
+   * @param nutrientLevel - Nutrient level at the segment midpoint.
+   * @param widthScale - Line width multiplier (default: 1).
+   */
+  private drawSegment(
+    oldX: number,
+    oldY: number,
+    newX: number,
+    newY: number,
+    type: GrowthType,
+    depth: number,
+    nutrientLevel: number,
+    widthScale: number = 1,
+  ) {
+    // Only main branches are tinted by the local nutrient level
+    const nutrientIntensity =
+      type === "main"
+        ? Math.min(1, nutrientLevel / this.config.BASE_NUTRIENT)
+        : 0;
+
+    // Calculate lightness based on depth (with clamping)
+    const calculatedLightness = Math.min(
+      100,
+      this.config.BASE_LIGHTNESS + depth * this.config.LIGHTNESS_STEP,
+    );
+
+    // Determine line style based on growth type
+    const lineWidth =
+      type === "main"
+        ? this.config.MAIN_LINE_WIDTH
+        : this.config.SECONDARY_LINE_WIDTH;
+    const alpha =
+      type === "main" ? this.config.MAIN_ALPHA : this.config.SECONDARY_ALPHA;
+
+    // Set nutrient hue with saturation based on nutrient level
+    const hue = this.config.NUTRIENT_HUE;
+    const saturation = type === "main" ? 100 * nutrientIntensity : 0;
+
+    // Use cached color to avoid string concatenation
+    this.ctx.strokeStyle = this.getCachedColor(
+      hue,
+      saturation,
+      calculatedLightness,
+      alpha,
+    );
+    this.ctx.lineWidth = lineWidth * widthScale;
+
+    // Only apply shadow effects for main branches with significant nutrient levels
+    // and only for a small percentage of segments to improve performance.
+    // This is purely cosmetic, so it does not draw from the simulation's PRNG.
+    const shouldApplyShadow =
+      type === "main" && nutrientIntensity > 0.5 && Math.random() < 0.2; // Only 20% of eligible segments get shadows
+
+    if (shouldApplyShadow) {
+      this.ctx.shadowBlur = this.config.SHADOW_BLUR * nutrientIntensity * 0.5; // Reduced blur
+
+      // Simplified shadow color calculation
+      this.ctx.shadowColor = `rgba(0, ${Math.floor(200 * nutrientIntensity)}, 0, 0.2)`;
+    } else {
+      // Skip shadow setup for most segments
+      this.ctx.shadowBlur = 0;
+      this.ctx.shadowColor = "transparent";
+    }
+
+    // Draw the line segment, mapping the frame centre to the canvas centre
+    const center = this.frame.center;
+    const offsetX = this.width / 2 - center.x;
+    const offsetY = this.height / 2 - center.y;
+    this.ctx.beginPath();
+    this.ctx.moveTo(oldX + offsetX, oldY + offsetY);
+    this.ctx.lineTo(newX + offsetX, newY + offsetY);
+    this.ctx.stroke();
+
+    // Reset shadow only if we applied it
+    if (shouldApplyShadow) {
+      this.ctx.shadowBlur = 0;
+      this.ctx.shadowColor = "transparent";
+    }
+  }
+}
@@ -0,0 +1,1386 @@
+// src/configSchema.ts
+
+import type {
+  BoundaryCondition,
+  BranchingModelName,
+  ColonyFusionMode,
+  Config,
+  DiffusionSolver,
+  TransportModelName,
+} from "./constants.js";
+
+/**
+ * configSchema.ts
+ *
+ * Describes every config parameter: its type, default, bounds, unit, what
+ * it does and whether changing it only takes effect after a reset. The
+ * schema is the single source of the default config, validates configs
+ * loaded from snapshots, files and URLs, and lays out the GUI.
+ */
+
+interface BaseParameter<T> {
+  default: T;
+  description: string;
+  requiresReset: boolean; // Only takes effect when the simulation is reset
+  group?: string; // GUI folder; parameters without one are not shown
+  label?: string; // GUI name
+}
+
+export interface NumberParameter extends BaseParameter<number> {
+  type: "number";
+  min: number;
+  max: number;
+  step: number; // GUI slider step; values in between are still valid
+  integer?: boolean;
+  unit?: string;
+}
+
+export interface BooleanParameter extends BaseParameter<boolean> {
+  type: "boolean";
+}
+
+export interface ChoiceParameter<
+  T extends string = string,
+> extends BaseParameter<T> {
+  type: "choice";
+  options: readonly T[];
+}
+
+export interface ColorParameter extends BaseParameter<string> {
+  type: "color"; // Any CSS color string
+}
+
+export interface StringParameter extends BaseParameter<string> {
+  type: "string";
+}
+
+export type AnyParameter =
+  | NumberParameter
+  | BooleanParameter
+  | ChoiceParameter
+  | ColorParameter
+  | StringParameter;
+
+// Schema entry matching the type of a config value: string unions become
+// choices, plain strings free text or colors
+export type ParameterSchema<T> = [T] extends [number]
+  ? NumberParameter
+  : [T] extends [boolean]
+    ? BooleanParameter
+    : string extends T
+      ? ColorParameter | StringParameter
+      : ChoiceParameter<T & string>;
+
+export type ConfigSchema = {
+  [K in keyof Config]: ParameterSchema<Config[K]>;
+};
+
+/**
+ * Thrown when a config fails validation. Every problem found is listed in
+ * issues, one per offending key.
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid config:\n  ${issues.join("\n  ")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+const BRANCHING_MODELS: readonly BranchingModelName[] = ["legacy", "nutrient"];
+const DIFFUSION_SOLVERS: readonly DiffusionSolver[] = ["explicit", "implicit"];
+const BOUNDARY_CONDITIONS: readonly BoundaryCondition[] = [
+  "no-flux",
+  "fixed",
+  "absorbing",
+  "periodic",
+];
+const TRANSPORT_MODELS: readonly TransportModelName[] = [
+  "diffusive",
+  "hydraulic",
+];
+const COLONY_FUSION_MODES: readonly ColonyFusionMode[] = [
+  "self",
+  "cross",
+  "incompatible",
+];
+
+// Opposite faces of the nutrient grid, for the periodic pairing rule
+const BOUNDARY_FACE_PAIRS: readonly [keyof Config, keyof Config][] = [
+  ["BOUNDARY_X_MIN", "BOUNDARY_X_MAX"],
+  ["BOUNDARY_Y_MIN", "BOUNDARY_Y_MAX"],
+  ["BOUNDARY_Z_MIN", "BOUNDARY_Z_MAX"],
+];
+
+export const CONFIG_SCHEMA: ConfigSchema = {
+  // -----------------------------
+  // Canvas & Growth Parameters
+  // -----------------------------
+  GROWTH_RADIUS_FACTOR: {
+    type: "number",
+    default: 0.35,
+    min: 0.01,
+    max: 1,
+    step: 0.01,
+    description: "Radius of the growth region as a fraction of the canvas",
+    requiresReset: true,
+    group: "Growth Parameters",
+    label: "Growth Radius Factor",
+  },
+  MAIN_BRANCH_COUNT: {
+    type: "number",
+    default: 24,
+    min: 1,
+    max: 100,
+    step: 1,
+    integer: true,
+    description: "Main hyphae started from each inoculum",
+    requiresReset: true,
+    group: "Growth Parameters",
+    label: "Main Branch Count",
+  },
+
+  // -----------------------------
+  // Growth Mechanics
+  // -----------------------------
+  STEP_SIZE: {
+    type: "number",
+    default: 1.0,
+    min: 0.01,
+    max: 5,
+    step: 0.1,
+    unit: "units",
+    description: "Base distance a tip advances per step",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Step Size",
+  },
+  GROWTH_SPEED_MULTIPLIER: {
+    type: "number",
+    default: 0.5,
+    min: 0.01,
+    max: 1,
+    step: 0.01,
+    description: "Multiplier applied to STEP_SIZE",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Growth Speed",
+  },
+  BASE_LIFE: {
+    type: "number",
+    default: 500,
+    min: 1,
+    max: 5000,
+    step: 10,
+    unit: "steps",
+    description: "Lifetime of a main hypha tip",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Base Life",
+  },
+  BRANCH_DECAY: {
+    type: "number",
+    default: 0.9,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Fraction of the parent's remaining life given to a branch",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Branch Decay",
+  },
+  BRANCH_CHANCE: {
+    type: "number",
+    default: 0.25,
+    min: 0,
+    max: 1,
+    step: 0.01,
+    description: "Maximum branching probability per tip per step",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Branch Chance",
+  },
+  MAX_BRANCH_DEPTH: {
+    type: "number",
+    default: 80,
+    min: 0,
+    max: 1000,
+    step: 1,
+    integer: true,
+    description: "Branching depth beyond which tips no longer branch",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Max Branch Depth",
+  },
+  ANGLE_DRIFT_STRENGTH: {
+    type: "number",
+    default: 0.08,
+    min: 0,
+    max: 0.2,
+    step: 0.01,
+    unit: "rad",
+    description: "Heading drift per step driven by Perlin noise",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Angle Drift",
+  },
+  WIGGLE_STRENGTH: {
+    type: "number",
+    default: 0.25,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    unit: "rad",
+    description: "Random heading wiggle per step",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Wiggle Strength",
+  },
+  PERLIN_SCALE: {
+    type: "number",
+    default: 0.04,
+    min: 0.01,
+    max: 0.2,
+    step: 0.01,
+    description: "Spatial frequency of the Perlin noise steering tips",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Perlin Scale",
+  },
+  CHEMOTROPISM_STRENGTH: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description:
+      "Fraction of the turn toward the nutrient gradient per step (0 disables chemotropism)",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Chemotropism",
+  },
+  CHEMOTROPISM_SENSING_RADIUS: {
+    type: "number",
+    default: 4,
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    unit: "units",
+    description: "Distance either side of a tip at which nutrients are sensed",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Sensing Radius",
+  },
+  AUTOTROPISM_STRENGTH: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description:
+      "Maximum fraction of the turn away from nearby mycelium per step (0 disables autotropism)",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Self-Avoidance",
+  },
+  AUTOTROPISM_SENSING_RADIUS: {
+    type: "number",
+    default: 3,
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    unit: "units",
+    description: "Distance within which tips sense other hyphae",
+    requiresReset: false,
+    group: "Growth Parameters",
+    label: "Avoidance Radius",
+  },
+
+  // -----------------------------
+  // Branching Model Parameters
+  // -----------------------------
+  BRANCHING_MODEL: {
+    type: "choice",
+    default: "legacy",
+    options: BRANCHING_MODELS,
+    description:
+      '"legacy" (resource-scaled chance) or "nutrient" (interval, nutrients, apical dominance)',
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Model",
+  },
+  BRANCH_INTERVAL: {
+    type: "number",
+    default: 3,
+    min: 0,
+    max: 20,
+    step: 0.5,
+    unit: "units",
+    description:
+      "Minimum hyphal length grown between branch points (nutrient model)",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Branch Interval",
+  },
+  BRANCH_NUTRIENT_SATURATION: {
+    type: "number",
+    default: 50,
+    min: 1,
+    max: 200,
+    step: 1,
+    description:
+      "Nutrient level at which the branch chance reaches half of BRANCH_CHANCE (nutrient model)",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Nutrient Saturation",
+  },
+  APICAL_DOMINANCE_RADIUS: {
+    type: "number",
+    default: 5,
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    unit: "units",
+    description:
+      "Radius within which other tips suppress branching (nutrient model)",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Dominance Radius",
+  },
+  APICAL_DOMINANCE_STRENGTH: {
+    type: "number",
+    default: 0.5,
+    min: 0,
+    max: 2,
+    step: 0.05,
+    description:
+      "Suppression per nearby tip; 0 disables apical dominance (nutrient model)",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Apical Dominance",
+  },
+  APICAL_BRANCH_FRACTION: {
+    type: "number",
+    default: 0.2,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description:
+      "Share of branch events that split the tip dichotomously (nutrient model)",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Apical Split Share",
+  },
+  DICHOTOMOUS_BRANCH_ANGLE: {
+    type: "number",
+    default: Math.PI / 4,
+    min: 0,
+    max: Math.PI / 2,
+    step: 0.05,
+    unit: "rad",
+    description: "Angle between the two daughters of an apical split",
+    requiresReset: false,
+    group: "Branching Model",
+    label: "Split Angle",
+  },
+
+  // -----------------------------
+  // Environmental Parameters
+  // -----------------------------
+  ENV_GRID_CELL_SIZE: {
+    type: "number",
+    default: 2,
+    min: 0.5,
+    max: 5,
+    step: 0.5,
+    unit: "units",
+    description: "Edge length of a nutrient grid cell",
+    requiresReset: true,
+    group: "Environmental Parameters",
+    label: "Grid Cell Size",
+  },
+  BASE_NUTRIENT: {
+    type: "number",
+    default: 100,
+    min: 10,
+    max: 500,
+    step: 10,
+    description: "Baseline nutrient level in each cell",
+    requiresReset: true,
+    group: "Environmental Parameters",
+    label: "Base Nutrient",
+  },
+  NUTRIENT_DIFFUSION: {
+    type: "number",
+    default: 0.2,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Horizontal diffusion coefficient D·Δt/Δx² per diffusion step",
+    requiresReset: false,
+    group: "Environmental Parameters",
+    label: "Nutrient Diffusion",
+  },
+  NUTRIENT_DIFFUSION_SOLVER: {
+    type: "choice",
+    default: "explicit",
+    options: DIFFUSION_SOLVERS,
+    description:
+      '"explicit" (CFL sub-stepped) or "implicit" (ADI, unconditionally stable)',
+    requiresReset: false,
+    group: "Environmental Parameters",
+    label: "Diffusion Solver",
+  },
+  NUTRIENT_CONSUMPTION_RATE: {
+    type: "number",
+    default: 1.0,
+    min: 0,
+    max: 5,
+    step: 0.1,
+    description: "Amount of nutrient consumed by a hypha tip per step",
+    requiresReset: false,
+    group: "Environmental Parameters",
+    label: "Nutrient Consumption",
+  },
+
+  // -----------------------------
+  // Nutrient Grid Boundaries
+  // -----------------------------
+  BOUNDARY_X_MIN: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the lowest-x face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "X Min Face",
+  },
+  BOUNDARY_X_MAX: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the highest-x face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "X Max Face",
+  },
+  BOUNDARY_Y_MIN: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the lowest-y face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "Y Min Face",
+  },
+  BOUNDARY_Y_MAX: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the highest-y face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "Y Max Face",
+  },
+  BOUNDARY_Z_MIN: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the lowest-z face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "Z Min Face",
+  },
+  BOUNDARY_Z_MAX: {
+    type: "choice",
+    default: "no-flux",
+    options: BOUNDARY_CONDITIONS,
+    description: "Condition at the highest-z face of the nutrient grid",
+    requiresReset: true,
+    group: "Nutrient Boundaries",
+    label: "Z Max Face",
+  },
+  BOUNDARY_FIXED_CONCENTRATION: {
+    type: "number",
+    default: 100,
+    min: 0,
+    max: 1000,
+    step: 10,
+    description: 'Reservoir concentration beyond "fixed" faces',
+    requiresReset: false,
+    group: "Nutrient Boundaries",
+    label: "Fixed Concentration",
+  },
+
+  // -----------------------------
+  // Nutrient Pockets Parameters
+  // -----------------------------
+  NUTRIENT_POCKET_RADIUS: {
+    type: "number",
+    default: 3,
+    min: 1,
+    max: 10,
+    step: 1,
+    integer: true,
+    unit: "cells",
+    description: "Radius of nutrient pockets",
+    requiresReset: true,
+    group: "Nutrient Pockets",
+    label: "Pocket Radius",
+  },
+  NUTRIENT_POCKET_AMOUNT: {
+    type: "number",
+    default: 100,
+    min: 0,
+    max: 500,
+    step: 10,
+    description: "Amount of nutrient added at the centre of a pocket",
+    requiresReset: true,
+    group: "Nutrient Pockets",
+    label: "Pocket Amount",
+  },
+  NUTRIENT_POCKET_DECAY_RATE: {
+    type: "number",
+    default: 0.5,
+    min: 0,
+    max: 1,
+    step: 0.1,
+    description: "Decay rate of nutrient pockets per step",
+    requiresReset: false,
+    group: "Nutrient Pockets",
+    label: "Pocket Decay Rate",
+  },
+
+  // -----------------------------
+  // Replenishment Parameters
+  // -----------------------------
+  REPLENISHMENT_INTERVAL: {
+    type: "number",
+    default: 60000,
+    min: 1000,
+    max: 600000,
+    step: 1000,
+    integer: true,
+    unit: "ms",
+    description: "Interval between nutrient replenishments",
+    requiresReset: false,
+    group: "Nutrient Pockets",
+    label: "Replenishment Interval",
+  },
+  REPLENISHMENT_AMOUNT: {
+    type: "number",
+    default: 5,
+    min: 0,
+    max: 50,
+    step: 1,
+    description: "Amount of nutrient added per cell during replenishment",
+    requiresReset: false,
+    group: "Nutrient Pockets",
+    label: "Replenishment Amount",
+  },
+
+  // -----------------------------
+  // Mycelial Network Parameters
+  // -----------------------------
+  INITIAL_RESOURCE_PER_TIP: {
+    type: "number",
+    default: 3000.0,
+    min: 100,
+    max: 10000,
+    step: 100,
+    description: "Resource each main tip starts with",
+    requiresReset: true,
+    group: "Mycelial Network",
+    label: "Initial Resource per Tip",
+  },
+  HYPHAL_GROWTH_COST: {
+    type: "number",
+    default: 1,
+    min: 0,
+    max: 20,
+    step: 0.1,
+    description:
+      "Resource a tip takes from its network node per unit of hyphal length grown",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Growth Cost",
+  },
+  NODE_MAINTENANCE_COST: {
+    type: "number",
+    default: 0.01,
+    min: 0,
+    max: 1,
+    step: 0.001,
+    description:
+      "Resource every network node spends each step to keep its hypha alive",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Maintenance Cost",
+  },
+  RESOURCE_FLOW_RATE: {
+    type: "number",
+    default: 2.0,
+    min: 0,
+    max: 5,
+    step: 0.1,
+    description: "Rate at which resources flow along network connections",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Resource Flow Rate",
+  },
+  TRANSPORT_MODEL: {
+    type: "choice",
+    default: "diffusive",
+    options: TRANSPORT_MODELS,
+    description:
+      '"diffusive" (neighbour differences) or "hydraulic" (pressure-driven flow from sources to growing tips)',
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Transport Model",
+  },
+  HYPHAL_RADIUS: {
+    type: "number",
+    default: 0.5,
+    min: 0.05,
+    max: 2,
+    step: 0.05,
+    unit: "units",
+    description:
+      "Inner hyphal radius setting edge conductance (radius^4 / length) in the hydraulic model",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Hyphal Radius",
+  },
+  TRANSPORT_SOURCE_THRESHOLD: {
+    type: "number",
+    default: 10,
+    min: 0,
+    max: 1000,
+    step: 1,
+    description:
+      "Resource a node needs to act as a pressure source in the hydraulic model",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Source Threshold",
+  },
+  EDGE_ADAPTATION_RATE: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 0.5,
+    step: 0.005,
+    description:
+      "Fraction by which edge radii move toward the radius their flux sustains each frame (0 disables thickening and pruning)",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Edge Adaptation Rate",
+  },
+  CORD_MAX_RADIUS: {
+    type: "number",
+    default: 2,
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    unit: "units",
+    description: "Radius approached by edges carrying saturating flux",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Max Cord Radius",
+  },
+  CORD_FLUX_SATURATION: {
+    type: "number",
+    default: 10,
+    min: 0.01,
+    max: 1000,
+    step: 0.01,
+    description:
+      "Flux per frame at which an edge's target radius is half the maximum",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Cord Flux Saturation",
+  },
+  PRUNE_RADIUS: {
+    type: "number",
+    default: 0.1,
+    min: 0,
+    max: 1,
+    step: 0.01,
+    unit: "units",
+    description:
+      "Edges thinner than this are pruned unless they lead to a growing tip (0 disables pruning)",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Prune Radius",
+  },
+  NETWORK_VISUALIZATION: {
+    type: "boolean",
+    default: true,
+    description: "Draw the network connections",
+    requiresReset: false,
+    group: "Mycelial Network",
+    label: "Show Network",
+  },
+
+  // -----------------------------
+  // Growth Simulation Parameters
+  // -----------------------------
+  TIME_LAPSE_FACTOR: {
+    type: "number",
+    default: 1,
+    min: 1,
+    max: 10,
+    step: 1,
+    integer: true,
+    description: "Number of simulation steps per animation frame",
+    requiresReset: false,
+    group: "Simulation Parameters",
+    label: "Time Lapse Factor",
+  },
+  SECONDARY_FAN_COUNT: {
+    type: "number",
+    default: 1,
+    min: 0,
+    max: 3,
+    step: 1,
+    integer: true,
+    description: "Maximum lateral branches per branch event (legacy model)",
+    requiresReset: false,
+    group: "Simulation Parameters",
+    label: "Secondary Fan Count",
+  },
+  WIDER_SECONDARY_ANGLE: {
+    type: "number",
+    default: Math.PI / 6,
+    min: 0,
+    max: Math.PI / 2,
+    step: 0.1,
+    unit: "rad",
+    description: "Additional angle spread for secondary branches",
+    requiresReset: false,
+    group: "Simulation Parameters",
+    label: "Secondary Angle",
+  },
+
+  // -----------------------------
+  // Rendering Parameters
+  // -----------------------------
+  BACKGROUND_ALPHA: {
+    type: "number",
+    default: 0.0,
+    min: 0,
+    max: 1,
+    step: 0.01,
+    description: "Opacity of the nutrient background in 2D",
+    requiresReset: false,
+    group: "Rendering Parameters",
+    label: "Background Alpha",
+  },
+  FADE_START_FACTOR: {
+    type: "number",
+    default: 0.8,
+    min: 0.5,
+    max: 1,
+    step: 0.05,
+    description: "Fraction of the growth radius at which hyphae start fading",
+    requiresReset: false,
+    group: "Rendering Parameters",
+    label: "Fade Start Factor",
+  },
+  FADE_END_FACTOR: {
+    type: "number",
+    default: 1.0,
+    min: 0.8,
+    max: 1.2,
+    step: 0.05,
+    description: "Fraction of the growth radius at which hyphae are faded out",
+    requiresReset: false,
+    group: "Rendering Parameters",
+    label: "Fade End Factor",
+  },
+  SHADOW_BLUR: {
+    type: "number",
+    default: 5,
+    min: 0,
+    max: 20,
+    step: 1,
+    unit: "px",
+    description: "Blur radius of hyphal shadows in 2D",
+    requiresReset: false,
+    group: "Rendering Parameters",
+    label: "Shadow Blur",
+  },
+  SHADOW_COLOR: {
+    type: "color",
+    default: "rgba(96, 80, 80, 0.1)",
+    description: "Shadow color and opacity",
+    requiresReset: false,
+    group: "Rendering Parameters",
+    label: "Shadow Color",
+  },
+
+  // -----------------------------
+  // Line Rendering Parameters
+  // -----------------------------
+  MAIN_LINE_WIDTH: {
+    type: "number",
+    default: 1.5,
+    min: 0.5,
+    max: 5,
+    step: 0.5,
+    unit: "px",
+    description: "Width of main hyphal lines",
+    requiresReset: false,
+    group: "Line Rendering",
+    label: "Main Line Width",
+  },
+  SECONDARY_LINE_WIDTH: {
+    type: "number",
+    default: 0.75,
+    min: 0.25,
+    max: 3,
+    step: 0.25,
+    unit: "px",
+    description: "Width of secondary hyphal lines",
+    requiresReset: false,
+    group: "Line Rendering",
+    label: "Secondary Line Width",
+  },
+  MAIN_ALPHA: {
+    type: "number",
+    default: 1,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Opacity of main hyphal lines",
+    requiresReset: false,
+    group: "Line Rendering",
+    label: "Main Alpha",
+  },
+  SECONDARY_ALPHA: {
+    type: "number",
+    default: 0.7,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Opacity of secondary hyphal lines",
+    requiresReset: false,
+    group: "Line Rendering",
+    label: "Secondary Alpha",
+  },
+
+  // -----------------------------
+  // Color Parameters
+  // -----------------------------
+  BASE_HUE: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 360,
+    step: 1,
+    unit: "°",
+    description: "Base hue for hyphal lines (drawn unsaturated)",
+    requiresReset: false,
+    group: "Color Parameters",
+    label: "Base Hue",
+  },
+  BASE_LIGHTNESS: {
+    type: "number",
+    default: 80,
+    min: 0,
+    max: 100,
+    step: 1,
+    unit: "%",
+    description: "Base lightness for hyphal lines",
+    requiresReset: false,
+    group: "Color Parameters",
+    label: "Base Lightness",
+  },
+  NUTRIENT_HUE: {
+    type: "number",
+    default: 120,
+    min: 0,
+    max: 360,
+    step: 1,
+    unit: "°",
+    description: "Hue for nutrient visualization",
+    requiresReset: false,
+    group: "Color Parameters",
+    label: "Nutrient Color",
+  },
+  LIGHTNESS_STEP: {
+    type: "number",
+    default: 3,
+    min: 0,
+    max: 10,
+    step: 1,
+    unit: "%",
+    description: "Lightness increase per branching depth",
+    requiresReset: false,
+    group: "Color Parameters",
+    label: "Lightness Step",
+  },
+
+  // -----------------------------
+  // Miscellaneous Parameters
+  // -----------------------------
+  ANASTOMOSIS_RADIUS: {
+    type: "number",
+    default: 0.25,
+    min: 0.01,
+    max: 5,
+    step: 0.01,
+    unit: "units",
+    description: "Radius within which tips fuse",
+    requiresReset: false,
+    group: "Miscellaneous",
+    label: "Anastomosis Radius",
+  },
+
+  // -----------------------------
+  // Inoculation Parameters
+  // -----------------------------
+  INOCULUM_COUNT: {
+    type: "number",
+    default: 1,
+    min: 1,
+    max: 8,
+    step: 1,
+    integer: true,
+    description:
+      "Number of colonies, each inoculated with MAIN_BRANCH_COUNT main hyphae",
+    requiresReset: true,
+    group: "Colonies",
+    label: "Inocula",
+  },
+  INOCULUM_DISTANCE: {
+    type: "number",
+    default: 30,
+    min: 0,
+    max: 100,
+    step: 1,
+    unit: "units",
+    description:
+      "Distance of each inoculum from the centre when there are several",
+    requiresReset: true,
+    group: "Colonies",
+    label: "Inoculum Distance",
+  },
+  COLONY_FUSION_MODE: {
+    type: "choice",
+    default: "cross",
+    options: COLONY_FUSION_MODES,
+    description:
+      '"self", "cross" or "incompatible" (tips stop on contact with other colonies)',
+    requiresReset: false,
+    group: "Colonies",
+    label: "Colony Fusion",
+  },
+
+  // -----------------------------
+  // 3D Growth Parameters
+  // -----------------------------
+  ENABLE_3D: {
+    type: "boolean",
+    default: true,
+    description: "Grow in 3D instead of on the plane",
+    requiresReset: true,
+    group: "3D Growth Parameters",
+    label: "Enable 3D Growth",
+  },
+  GROWTH_HEIGHT_FACTOR: {
+    type: "number",
+    default: 1.0,
+    min: 0.1,
+    max: 2,
+    step: 0.1,
+    description: "Height of the growth region relative to its radius",
+    requiresReset: true,
+    group: "3D Growth Parameters",
+    label: "Growth Height Factor",
+  },
+  VERTICAL_ANGLE_DRIFT_STRENGTH: {
+    type: "number",
+    default: 0.05,
+    min: 0,
+    max: 0.2,
+    step: 0.01,
+    unit: "rad",
+    description: "Vertical heading drift per step driven by Perlin noise",
+    requiresReset: false,
+    group: "3D Growth Parameters",
+    label: "Vertical Angle Drift",
+  },
+  VERTICAL_WIGGLE_STRENGTH: {
+    type: "number",
+    default: 0.05,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    unit: "rad",
+    description: "Random vertical heading wiggle per step",
+    requiresReset: false,
+    group: "3D Growth Parameters",
+    label: "Vertical Wiggle",
+  },
+  GRAVITY_INFLUENCE: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Downward pull on tip headings",
+    requiresReset: false,
+    group: "3D Growth Parameters",
+    label: "Gravity Influence",
+  },
+  SUBSTRATE_LAYERS: {
+    type: "number",
+    default: 10,
+    min: 1,
+    max: 50,
+    step: 1,
+    integer: true,
+    description: "Number of substrate layers",
+    requiresReset: true,
+    group: "3D Growth Parameters",
+    label: "Substrate Layers",
+  },
+  SUBSTRATE_LAYER_HEIGHT: {
+    type: "number",
+    default: 5,
+    min: 1,
+    max: 20,
+    step: 1,
+    unit: "units",
+    description: "Height of each substrate layer",
+    requiresReset: true,
+    group: "3D Growth Parameters",
+    label: "Substrate Layer Height",
+  },
+  NUTRIENT_VERTICAL_DIFFUSION: {
+    type: "number",
+    default: 0.2,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Vertical diffusion coefficient D·Δt/Δz² per diffusion step",
+    requiresReset: false,
+    group: "3D Growth Parameters",
+    label: "Vertical Diffusion",
+  },
+  NUTRIENT_GRADIENT_STRENGTH: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Decrease of the initial nutrient level with depth",
+    requiresReset: true,
+    group: "3D Growth Parameters",
+    label: "Nutrient Depth Gradient",
+  },
+  SURFACE_GROWTH_BIAS: {
+    type: "number",
+    default: 0,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Share of nutrient pockets placed near the surface",
+    requiresReset: false,
+    group: "3D Growth Parameters",
+    label: "Surface Growth Bias",
+  },
+
+  // -----------------------------
+  // 3D Rendering Parameters
+  // -----------------------------
+  SHOW_NODES_3D: {
+    type: "boolean",
+    default: true,
+    description: "Show nodes in 3D visualization",
+    requiresReset: false,
+    group: "3D Rendering",
+    label: "Show Nodes",
+  },
+  NODE_OPACITY: {
+    type: "number",
+    default: 0.5,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Opacity of nodes in 3D visualization",
+    requiresReset: false,
+    group: "3D Rendering",
+    label: "Node Opacity",
+  },
+  SHOW_NUTRIENT_ENVIRONMENT: {
+    type: "boolean",
+    default: false,
+    description: "Show the nutrient environment in 3D (slow)",
+    requiresReset: true,
+    group: "3D Rendering",
+    label: "Show Nutrients",
+  },
+  NUTRIENT_POINT_SIZE: {
+    type: "number",
+    default: 1.5,
+    min: 0.5,
+    max: 5,
+    step: 0.1,
+    description: "Size of nutrient points in 3D visualization",
+    requiresReset: true,
+    group: "3D Rendering",
+    label: "Nutrient Point Size",
+  },
+  NUTRIENT_POINT_OPACITY: {
+    type: "number",
+    default: 0.3,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    description: "Opacity of nutrient points",
+    requiresReset: true,
+    group: "3D Rendering",
+    label: "Nutrient Opacity",
+  },
+  CAMERA_DISTANCE: {
+    type: "number",
+    default: 120,
+    min: 10,
+    max: 500,
+    step: 10,
+    unit: "units",
+    description: "Distance of the 3D camera from the origin",
+    requiresReset: false,
+    group: "3D Rendering",
+    label: "Camera Distance",
+  },
+  CAMERA_FOV: {
+    type: "number",
+    default: 60,
+    min: 30,
+    max: 100,
+    step: 5,
+    unit: "°",
+    description: "Vertical field of view of the 3D camera",
+    requiresReset: false,
+    group: "3D Rendering",
+    label: "Camera FOV",
+  },
+
+  // -----------------------------
+  // Reproducibility
+  // -----------------------------
+  RANDOM_SEED: {
+    type: "number",
+    default: 1337,
+    min: 0,
+    max: 0xffffffff,
+    step: 1,
+    integer: true,
+    description:
+      "Seed for the shared PRNG; same seed + config reproduces the same colony",
+    requiresReset: true,
+    group: "Simulation Parameters",
+    label: "Random Seed",
+  },
+  PRESET: {
+    type: "string",
+    default: "default",
+    description: "Name of the last applied species preset (see presets.ts)",
+    requiresReset: false,
+  },
+  PRESET_VERSION: {
+    type: "number",
+    default: 1,
+    min: 1,
+    max: 1000,
+    step: 1,
+    integer: true,
+    description: "Version of that preset",
+    requiresReset: false,
+  },
+};
+
+/**
+ * Gets the schema entry of a config key.
+ * @param key - Name of the parameter.
+ * @returns Its schema entry.
+ */
+export function getParameterSchema(key: keyof Config): AnyParameter {
+  return CONFIG_SCHEMA[key] as AnyParameter;
+}
+
+/**
+ * Gets every config key, in schema order.
+ * @returns The config keys.
+ */
+export function getConfigKeys(): (keyof Config)[] {
+  return Object.keys(CONFIG_SCHEMA) as (keyof Config)[];
+}
+
+/**
+ * Lists the parameters whose values differ between two configs.
+ * @param before - Config before the change.
+ * @param after - Config after the change.
+ * @returns The changed keys, in schema order.
+ */
+export function getChangedKeys(
+  before: Config,
+  after: Config,
+): (keyof Config)[] {
+  return getConfigKeys().filter((key) => before[key] !== after[key]);
+}
+
+/**
+ * Checks whether changing the given parameters needs a simulation reset.
+ * Live parameters are read by the running simulation every step and only
+ * need already-rendered materials refreshed; structural ones (grid size,
+ * inocula, seed, ...) only take effect when the colony is regrown.
+ * @param keys - Changed parameters.
+ * @returns Whether any of them is structural.
+ */
+export function needsReset(keys: Iterable<keyof Config>): boolean {
+  for (const key of keys) {
+    if (CONFIG_SCHEMA[key].requiresReset) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Builds a fresh config holding every parameter's default value.
+ * @returns The default config.
+ */
+export function defaultConfig(): Config {
+  const values: Record<string, unknown> = {};
+  for (const key of getConfigKeys()) {
+    values[key] = CONFIG_SCHEMA[key].default;
+  }
+  return values as unknown as Config;
+}
+
+/**
+ * Checks a (partial) config against the schema. Unknown keys, values of the
+ * wrong type, out-of-range or non-integer numbers, unknown choices and
+ * periodic boundary faces without a periodic opposite face are rejected.
+ * @param values - Parsed config values, e.g. from JSON.
+ * @param base - Config the values will be merged into, used for rules
+ *               spanning several keys.
+ * @returns The values, typed as config overrides.
+ * @throws ConfigValidationError listing every problem found.
+ */
+export function validateConfig(
+  values: unknown,
+  base: Config = defaultConfig(),
+): Partial<Config> {
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new ConfigValidationError(["config must be an object"]);
+  }
+
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (!(key in CONFIG_SCHEMA)) {
+      issues.push(`${key}: unknown parameter`);
+      continue;
+    }
+    const issue = checkValue(getParameterSchema(key as keyof Config), value);
+    if (issue) {
+      issues.push(`${key}: ${issue}`);
+    }
+  }
+
+  const merged: Record<string, unknown> = { ...base, ...values };
+  for (const [minKey, maxKey] of BOUNDARY_FACE_PAIRS) {
+    if ((merged[minKey] === "periodic") !== (merged[maxKey] === "periodic")) {
+      issues.push(
+        `${minKey}/${maxKey}: periodic faces must be paired with a periodic opposite face`,
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return values as Partial<Config>;
+}
+
+/**
+ * Validates config values and, if all are valid, assigns them to a config.
+ * Nothing is changed when validation fails.
+ * @param target - Config to update.
+ * @param values - Parsed config values, e.g. from JSON.
+ * @returns The applied values.
+ * @throws ConfigValidationError listing every problem found.
+ */
+export function applyConfig(target: Config, values: unknown): Partial<Config> {
+  const valid = validateConfig(values, target);
+  Object.assign(target, valid);
+  return valid;
+}
+
+/**
+ * Parses config overrides from URL query parameters, e.g.
+ * `?BRANCH_CHANCE=0.4&ENABLE_3D=false`. Values are converted according to
+ * the schema but not validated; pass the result to validateConfig().
+ * @param params - Query parameters of the page URL.
+ * @returns Parsed values keyed by parameter name.
+ */
+export function configFromURLParams(
+  params: URLSearchParams,
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  params.forEach((raw, key) => {
+    const schema =
+      key in CONFIG_SCHEMA ? getParameterSchema(key as keyof Config) : null;
+    values[key] = schema ? parseValue(schema, raw) : raw;
+  });
+  return values;
+}
+
+// Converts a query string value to the type the parameter expects, leaving
+// it as a string when it cannot be, so validation reports it
+function parseValue(schema: AnyParameter, raw: string): unknown {
+  switch (schema.type) {
+    case "number":
+      return raw.trim() === "" ? raw : Number(raw);
+    case "boolean":
+      return raw === "true" ? true : raw === "false" ? false : raw;
+    default:
+      return raw;
+  }
+}
+
+// Returns why a value does not fit its schema entry, or null if it does
+function checkValue(schema: AnyParameter, value: unknown): string | null {
+  switch (schema.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `expected a finite number, got ${describe(value)}`;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return `expected an integer, got ${value}`;
+      }
+      if (value < schema.min || value > schema.max) {
+        return `${value} is outside the range [${schema.min}, ${schema.max}]`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `expected true or false, got ${describe(value)}`;
+    case "choice":
+      return schema.options.includes(value as string)
+        ? null
+        : `expected one of ${schema.options.map((o) => `"${o}"`).join(", ")}, got ${describe(value)}`;
+    case "color":
+    case "string":
+      return typeof value === "string" && value !== ""
+        ? null
+        : `expected a non-empty string, got ${describe(value)}`;
+  }
+}
+
+function describe(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
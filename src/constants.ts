@@ -7,6 +7,26 @@
  * for the mycelial simulation.
  */
 
+import { defaultConfig } from "./configSchema.js";
+
+// Numerical scheme used by EnvironmentGPU.diffuseNutrients
+export type DiffusionSolver = "explicit" | "implicit";
+
+// Behaviour of one face of the nutrient grid: a sealed wall, a reservoir at
+// BOUNDARY_FIXED_CONCENTRATION, a zero-concentration sink, or wrap-around
+export type BoundaryCondition = "no-flux" | "fixed" | "absorbing" | "periodic";
+
+// Branching model used by the simulation (see branching.ts)
+export type BranchingModelName = "legacy" | "nutrient";
+
+// How resource moves through the network: the neighbour-difference rule or
+// pressure-driven flow between sources and growing tips (see transport.ts)
+export type TransportModelName = "diffusive" | "hydraulic";
+
+// Which colonies a tip may fuse with: only its own, any, or its own while
+// stopping on contact with others (vegetative incompatibility)
+export type ColonyFusionMode = "self" | "cross" | "incompatible";
+
 export interface Config {
   // Define all properties with their types
   GROWTH_RADIUS_FACTOR: number;
@@ -20,9 +40,28 @@ export interface Config {
   ANGLE_DRIFT_STRENGTH: number;
   WIGGLE_STRENGTH: number;
   PERLIN_SCALE: number;
+  CHEMOTROPISM_STRENGTH: number;
+  CHEMOTROPISM_SENSING_RADIUS: number;
+  AUTOTROPISM_STRENGTH: number;
+  AUTOTROPISM_SENSING_RADIUS: number;
+  BRANCHING_MODEL: BranchingModelName;
+  BRANCH_INTERVAL: number;
+  BRANCH_NUTRIENT_SATURATION: number;
+  APICAL_DOMINANCE_RADIUS: number;
+  APICAL_DOMINANCE_STRENGTH: number;
+  APICAL_BRANCH_FRACTION: number;
+  DICHOTOMOUS_BRANCH_ANGLE: number;
   ENV_GRID_CELL_SIZE: number;
   BASE_NUTRIENT: number;
   NUTRIENT_DIFFUSION: number;
+  NUTRIENT_DIFFUSION_SOLVER: DiffusionSolver;
+  BOUNDARY_X_MIN: BoundaryCondition;
+  BOUNDARY_X_MAX: BoundaryCondition;
+  BOUNDARY_Y_MIN: BoundaryCondition;
+  BOUNDARY_Y_MAX: BoundaryCondition;
+  BOUNDARY_Z_MIN: BoundaryCondition;
+  BOUNDARY_Z_MAX: BoundaryCondition;
+  BOUNDARY_FIXED_CONCENTRATION: number;
   NUTRIENT_CONSUMPTION_RATE: number;
   NUTRIENT_POCKET_RADIUS: number;
   NUTRIENT_POCKET_AMOUNT: number;
@@ -30,7 +69,16 @@ export interface Config {
   REPLENISHMENT_INTERVAL: number;
   REPLENISHMENT_AMOUNT: number;
   INITIAL_RESOURCE_PER_TIP: number;
+  HYPHAL_GROWTH_COST: number;
+  NODE_MAINTENANCE_COST: number;
   RESOURCE_FLOW_RATE: number;
+  TRANSPORT_MODEL: TransportModelName;
+  HYPHAL_RADIUS: number;
+  TRANSPORT_SOURCE_THRESHOLD: number;
+  EDGE_ADAPTATION_RATE: number;
+  CORD_MAX_RADIUS: number;
+  CORD_FLUX_SATURATION: number;
+  PRUNE_RADIUS: number;
   NETWORK_VISUALIZATION: boolean;
   TIME_LAPSE_FACTOR: number;
   SECONDARY_FAN_COUNT: number;
@@ -49,6 +97,9 @@ export interface Config {
   NUTRIENT_HUE: number;
   LIGHTNESS_STEP: number;
   ANASTOMOSIS_RADIUS: number;
+  INOCULUM_COUNT: number;
+  INOCULUM_DISTANCE: number;
+  COLONY_FUSION_MODE: ColonyFusionMode;
   
   // 3D Growth Parameters
   ENABLE_3D: boolean;
@@ -70,117 +121,12 @@ export interface Config {
   NUTRIENT_POINT_OPACITY: number;
   CAMERA_DISTANCE: number;
   CAMERA_FOV: number;
-}
-
-export const config = {
-  // -----------------------------
-  // Canvas & Growth Parameters
-  // -----------------------------
-  GROWTH_RADIUS_FACTOR: 0.35, // Radius for 3D growth from origin
-  MAIN_BRANCH_COUNT: 24, // Increased number of main branches for more uniform 3D coverage
-
-  // -----------------------------
-  // Growth Mechanics
-  // -----------------------------
-  STEP_SIZE: 1.0, // Reduced step size for finer, more dense growth
-  GROWTH_SPEED_MULTIPLIER: 0.5, // Increased growth speed for better visualization
-  BASE_LIFE: 500, // Increased life for longer hyphae and better coverage
-  BRANCH_DECAY: 0.9, // Increased to allow secondary branches to live longer
-  BRANCH_CHANCE: 0.25, // Balanced branching probability
-  MAX_BRANCH_DEPTH: 80, // Increased depth for more complex networks
-  ANGLE_DRIFT_STRENGTH: 0.08, // Strength of angle drift influenced by Perlin noise (increased for more natural growth)
-  WIGGLE_STRENGTH: 0.25, // Strength of wiggle for additional randomness (increased for more natural growth)
-  PERLIN_SCALE: 0.04, // Scale for Perlin noise (adjusted for more natural patterns)
-
-  // -----------------------------
-  // Environmental Parameters
-  // -----------------------------
-  ENV_GRID_CELL_SIZE: 2, // Size of each grid cell for resource distribution (increased from 1)
-  BASE_NUTRIENT: 100, // Baseline nutrient level in each cell
-  NUTRIENT_DIFFUSION: 0.2, // Diffusion rate of nutrients (reduced from 0.25)
-  NUTRIENT_CONSUMPTION_RATE: 1.0, // Amount of nutrient consumed by a hypha tip per step
-
-  // -----------------------------
-  // Nutrient Pockets Parameters
-  // -----------------------------
-  NUTRIENT_POCKET_RADIUS: 3, // Radius of nutrient pockets in grid cells
-  NUTRIENT_POCKET_AMOUNT: 100, // Amount of nutrient added per pocket
-  NUTRIENT_POCKET_DECAY_RATE: 0.5, // Decay rate of nutrient pockets per step
 
-  // -----------------------------
-  // Replenishment Parameters
-  // -----------------------------
-  REPLENISHMENT_INTERVAL: 60000, // Interval in milliseconds to replenish nutrients
-  REPLENISHMENT_AMOUNT: 5, // Amount of nutrient added per cell during replenishment
-
-  // -----------------------------
-  // Mycelial Network Parameters
-  // -----------------------------
-  INITIAL_RESOURCE_PER_TIP: 3000.0, // Increased initial resources for better coverage
-  RESOURCE_FLOW_RATE: 2.0, // Balanced flow rate for more stable network
-  NETWORK_VISUALIZATION: true, // Enable visualization of network connections
-
-  // -----------------------------
-  // Growth Simulation Parameters
-  // -----------------------------
-  TIME_LAPSE_FACTOR: 1, // Number of simulation steps per animation frame
-  SECONDARY_FAN_COUNT: 1, // Number of secondary branches per main tip
-  WIDER_SECONDARY_ANGLE: Math.PI / 6, // Additional angle spread for secondary branches
-
-  // -----------------------------
-  // Rendering Parameters
-  // -----------------------------
-  BACKGROUND_ALPHA: 0.0, // Transparency for nutrient environment rendering
-  FADE_START_FACTOR: 0.8, // Radius factor to start fading
-  FADE_END_FACTOR: 1.0, // Radius factor to end fading
-  SHADOW_BLUR: 5, // Blur level for shadows (reduced from 10)
-  SHADOW_COLOR: "rgba(96, 80, 80, 0.1)", // Shadow color and opacity
-
-  // -----------------------------
-  // Line Rendering Parameters
-  // -----------------------------
-  MAIN_LINE_WIDTH: 1.5, // Width of main hyphal lines (reduced from 2.0)
-  SECONDARY_LINE_WIDTH: 0.75, // Width of secondary hyphal lines (reduced from 1.0)
-  MAIN_ALPHA: 1, // Opacity of main hyphal lines
-  SECONDARY_ALPHA: 0.7, // Opacity of secondary hyphal lines
-
-  // -----------------------------
-  // Color Parameters
-  // -----------------------------
-  BASE_HUE: 0, // Base hue for hyphal lines (0 = red, but with saturation 0 for white)
-  BASE_LIGHTNESS: 80, // Base lightness for hyphal lines
-  NUTRIENT_HUE: 120, // Hue for nutrient visualization (120 = green)
-
-  // Lightness Increment
-  LIGHTNESS_STEP: 3, // Lightness increase per branching depth
+  // Reproducibility
+  RANDOM_SEED: number;
+  PRESET: string;
+  PRESET_VERSION: number;
+}
 
-  // -----------------------------
-  // Miscellaneous Parameters
-  // -----------------------------
-  ANASTOMOSIS_RADIUS: 0.25, // Radius within which tips fuse
-  
-  // -----------------------------
-  // 3D Growth Parameters
-  // -----------------------------
-  ENABLE_3D: true, // Enable 3D growth simulation
-  GROWTH_HEIGHT_FACTOR: 1.0, // Equal height and radius for perfect spherical growth
-  VERTICAL_ANGLE_DRIFT_STRENGTH: 0.05, // Reduced drift for more predictable uniform growth 
-  VERTICAL_WIGGLE_STRENGTH: 0.05, // Reduced wiggle for more consistent uniform growth
-  GRAVITY_INFLUENCE: 0, // Eliminated gravity influence for truly uniform growth in all directions
-  SUBSTRATE_LAYERS: 10, // Increased layers for better 3D coverage
-  SUBSTRATE_LAYER_HEIGHT: 5, // Finer substrate resolution
-  NUTRIENT_VERTICAL_DIFFUSION: 0.2, // Increased vertical diffusion for more even nutrient distribution
-  NUTRIENT_GRADIENT_STRENGTH: 0, // Eliminated gradient to ensure uniform nutrients in all directions
-  SURFACE_GROWTH_BIAS: 0, // Eliminated surface bias to allow truly uniform growth in all directions
-  
-  // -----------------------------
-  // 3D Rendering Parameters
-  // -----------------------------
-  SHOW_NODES_3D: true, // Show nodes in 3D visualization
-  NODE_OPACITY: 0.5, // Opacity of nodes in 3D visualization
-  SHOW_NUTRIENT_ENVIRONMENT: false, // Show nutrient environment in 3D (disabled for performance)
-  NUTRIENT_POINT_SIZE: 1.5, // Size of nutrient points in 3D visualization
-  NUTRIENT_POINT_OPACITY: 0.3, // Opacity of nutrient points
-  CAMERA_DISTANCE: 120, // Increased camera distance to better see the entire growth
-  CAMERA_FOV: 60 // Reduced FOV for less distortion and better visibility
-};
+// Defaults, bounds and descriptions of every parameter live in configSchema.ts
+export const config: Config = defaultConfig();
@@ -1,6 +1,36 @@
 // src/environmentGPU.ts
 
-import { config } from "./constants.js"; // Import the config object
+import { BoundaryCondition, Config, config as globalConfig } from "./constants.js";
+import { Random } from "./random.js";
+import { Point3D } from "./simulation.js";
+import { WorldFrame, WorldFrameState } from "./worldFrame.js";
+
+/**
+ * Serializable state of the environment, used by snapshots.
+ */
+export interface EnvironmentState {
+  width: number;
+  height: number;
+  frame: WorldFrameState;
+  cols: number;
+  rows: number;
+  layers: number;
+  nutrients: number[]; // Flattened x-major: ((x * rows) + y) * layers + z
+}
+
+// Explicit diffusion is stable while 2 * (Dx + Dy + Dz) <= 1
+const EXPLICIT_STABILITY_LIMIT = 1;
+// Width in cells of the square column tiles used to skip settled regions
+const DIFFUSION_TILE_SIZE = 8;
+
+/**
+ * Boundary conditions on the two faces of one grid axis.
+ */
+interface AxisBoundary {
+  min: BoundaryCondition;
+  max: BoundaryCondition;
+  periodic: boolean;
+}
 
 /**
  * EnvironmentGPU class manages the environmental resources
@@ -9,26 +39,150 @@ import { config } from "./constants.js"; // Import the config object
 export class EnvironmentGPU {
   private width: number;
   private height: number;
-  private depth: number;
-  private nutrientGrid: number[][][] = [];
-  // For optimization, we'll track which grid cells need diffusion
-  private activeCells: Set<string> = new Set();
+  // Maps world positions (centred on the inoculum) to grid cells
+  private frame: WorldFrame;
+  private cols: number = 0;
+  private rows: number = 0;
+  private layers: number = 0;
+  // Nutrient field, flattened x-major: ((x * rows) + y) * layers + z
+  private nutrients: Float32Array = new Float32Array(0);
+  // Back buffer that explicit diffusion writes into before the buffers are swapped
+  private nextNutrients: Float32Array = new Float32Array(0);
+  // Column tiles (x, y) whose cells may still change under diffusion.
+  // A clean tile and its clean neighbours have a zero update, so skipping
+  // them gives exactly the same result as sweeping the whole grid.
+  private tileCols: number = 0;
+  private tileRows: number = 0;
+  private dirtyTiles: Uint8Array = new Uint8Array(0);
+  private nextDirtyTiles: Uint8Array = new Uint8Array(0);
+  // Per-axis boundary conditions, resolved from config on construction,
+  // reset and import rather than on every lookup
+  private boundaries: [AxisBoundary, AxisBoundary, AxisBoundary];
+  private rng: Random;
+  private config: Config;
 
   /**
-   * Constructor initializes the nutrient grid based on canvas dimensions.
+   * Constructor initializes the nutrient grid so it covers the growth volume.
    * @param width - Width of the canvas.
    * @param height - Height of the canvas.
+   * @param rng - Seeded random number generator for pocket placement and replenishment.
+   * @param config - Parameters of this environment (default: the global config).
+   * @throws Error if only one face of an axis is periodic.
    */
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, rng: Random = new Random(), config: Config = globalConfig) {
     this.width = width;
     this.height = height;
+    this.rng = rng;
+    this.config = config;
+    this.boundaries = this.resolveBoundaries();
     
-    // Calculate depth based on the growth height factor
-    const radius = Math.min(width, height) * config.GROWTH_RADIUS_FACTOR;
-    this.depth = Math.ceil(radius * config.GROWTH_HEIGHT_FACTOR * 2);
+    // The grid spans the growth sphere around the origin
+    this.frame = WorldFrame.forGrowthVolume(width, height, config);
     
     this.initializeNutrientGrid();
-    console.log(`EnvironmentGPU initialized with dimensions ${width}x${height}x${this.depth}`);
+    const { extents } = this.frame;
+    console.log(`EnvironmentGPU initialized with dimensions ${extents.x}x${extents.y}x${extents.z}`);
+  }
+
+  /**
+   * Gets the frame mapping world positions to grid cells.
+   * @returns The world frame of the nutrient grid.
+   */
+  public getFrame(): WorldFrame {
+    return this.frame;
+  }
+
+  /**
+   * Allocates the nutrient buffers for a grid size.
+   */
+  private allocate(cols: number, rows: number, layers: number) {
+    const cellCount = cols * rows * layers;
+    this.cols = cols;
+    this.rows = rows;
+    this.layers = layers;
+    this.nutrients = new Float32Array(cellCount);
+    this.nextNutrients = new Float32Array(cellCount);
+    this.tileCols = Math.ceil(cols / DIFFUSION_TILE_SIZE);
+    this.tileRows = Math.ceil(rows / DIFFUSION_TILE_SIZE);
+    this.dirtyTiles = new Uint8Array(this.tileCols * this.tileRows).fill(1);
+    this.nextDirtyTiles = new Uint8Array(this.tileCols * this.tileRows);
+  }
+
+  /**
+   * Flags the column tile containing a cell so the next diffusion step
+   * revisits it after the cell was changed from outside.
+   */
+  private markDirty(index: number) {
+    const column = Math.floor(index / this.layers);
+    const x = Math.floor(column / this.rows);
+    const y = column % this.rows;
+    const tile =
+      Math.floor(x / DIFFUSION_TILE_SIZE) * this.tileRows +
+      Math.floor(y / DIFFUSION_TILE_SIZE);
+    this.dirtyTiles[tile] = 1;
+  }
+
+  /**
+   * Converts grid coordinates to a flat cell index.
+   */
+  private cellIndex(x: number, y: number, z: number): number {
+    return (x * this.rows + y) * this.layers + z;
+  }
+
+  /**
+   * Converts a world position to a flat cell index. Positions beyond a
+   * periodic axis wrap around to the opposite side.
+   * @returns The cell index, or -1 if the position is outside the grid.
+   */
+  private positionToIndex(x: number, y: number, z: number): number {
+    const [boundaryX, boundaryY, boundaryZ] = this.boundaries;
+    const cell = this.frame.worldToCell(x, y, z);
+    const gridX = wrapCell(cell.x, this.cols, boundaryX);
+    const gridY = wrapCell(cell.y, this.rows, boundaryY);
+    const gridZ = wrapCell(cell.z, this.layers, boundaryZ);
+
+    if (this.frame.containsCell(gridX, gridY, gridZ)) {
+      return this.cellIndex(gridX, gridY, gridZ);
+    }
+    return -1;
+  }
+
+  /**
+   * Finds the boundary condition of the face a position lies beyond.
+   * @returns The boundary condition, or undefined if the position is inside the grid.
+   */
+  private boundaryBeyond(x: number, y: number, z: number): BoundaryCondition | undefined {
+    const boundaries = this.boundaries;
+    const cell = this.frame.worldToCell(x, y, z);
+    const cells = [cell.x, cell.y, cell.z];
+    const extents = [this.cols, this.rows, this.layers];
+    for (let axis = 0; axis < 3; axis++) {
+      if (cells[axis] < 0) {
+        return boundaries[axis].min;
+      }
+      if (cells[axis] >= extents[axis]) {
+        return boundaries[axis].max;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads and validates the per-face boundary conditions from config.
+   * @throws Error if only one face of an axis is periodic.
+   */
+  private resolveBoundaries(): [AxisBoundary, AxisBoundary, AxisBoundary] {
+    const axis = (name: string, min: BoundaryCondition, max: BoundaryCondition): AxisBoundary => {
+      if ((min === "periodic") !== (max === "periodic")) {
+        throw new Error(`Periodic boundaries must be set on both ${name} faces`);
+      }
+      return { min, max, periodic: min === "periodic" };
+    };
+    return [
+      axis("x", this.config.BOUNDARY_X_MIN, this.config.BOUNDARY_X_MAX),
+      axis("y", this.config.BOUNDARY_Y_MIN, this.config.BOUNDARY_Y_MAX),
+      axis("z", this.config.BOUNDARY_Z_MIN, this.config.BOUNDARY_Z_MAX),
+    ];
   }
 
   /**
@@ -36,33 +190,17 @@ export class EnvironmentGPU {
    * Implements vertical stratification with nutrient gradients.
    */
   private initializeNutrientGrid() {
-    const cols = Math.ceil(this.width / config.ENV_GRID_CELL_SIZE);
-    const rows = Math.ceil(this.height / config.ENV_GRID_CELL_SIZE);
-    const layers = Math.ceil(this.depth / config.ENV_GRID_CELL_SIZE);
-    
-    // Create 3D grid
-    this.nutrientGrid = Array.from({ length: cols }, () =>
-      Array.from({ length: rows }, () =>
-        Array.from({ length: layers }, (_, z) => {
-          // Apply nutrient gradient based on depth
-          // Surface layer has most nutrients, decreasing with depth
-          const depthFactor = 1 - (z / layers) * config.NUTRIENT_GRADIENT_STRENGTH;
-          return config.BASE_NUTRIENT * Math.max(0.1, depthFactor);
-        })
-      )
-    );
-    
-    // Instead of tracking all cells, we'll only track cells at the boundaries
-    // and add more cells as needed during simulation
+    const { cols, rows, layers } = this.frame;
+    this.allocate(cols, rows, layers);
     
-    // Add boundary cells to active cells (edges of the grid)
-    // This is much more efficient than adding all cells
-    for (let x = 0; x < cols; x += Math.max(1, Math.floor(cols / 10))) {
-      for (let y = 0; y < rows; y += Math.max(1, Math.floor(rows / 10))) {
-        for (let z = 0; z < layers; z += Math.max(1, Math.floor(layers / 10))) {
-          if (this.nutrientGrid[x][y][z] > 0) {
-            this.activeCells.add(`${x},${y},${z}`);
-          }
+    // Apply nutrient gradient based on depth
+    // Surface layer has most nutrients, decreasing with depth
+    for (let z = 0; z < layers; z++) {
+      const depthFactor = 1 - (z / layers) * this.config.NUTRIENT_GRADIENT_STRENGTH;
+      const level = this.config.BASE_NUTRIENT * Math.max(0.1, depthFactor);
+      for (let x = 0; x < cols; x++) {
+        for (let y = 0; y < rows; y++) {
+          this.nutrients[this.cellIndex(x, y, z)] = level;
         }
       }
     }
@@ -75,29 +213,24 @@ export class EnvironmentGPU {
    * Creates nutrient-rich pockets throughout the 3D environment
    */
   private createNutrientPockets() {
-    const cols = this.nutrientGrid.length;
-    const rows = this.nutrientGrid[0].length;
-    const layers = this.nutrientGrid[0][0].length;
+    const { cols, rows, layers } = this;
     
     // Create more nutrient pockets to ensure proper growth
     const pocketCount = 20;
     
     for (let i = 0; i < pocketCount; i++) {
       // Random position for pocket center
-      const centerX = Math.floor(Math.random() * cols);
-      const centerY = Math.floor(Math.random() * rows);
+      const centerX = this.rng.nextInt(cols);
+      const centerY = this.rng.nextInt(rows);
       
       // Bias towards upper layers based on surface growth bias
-      const layerBias = Math.random() < config.SURFACE_GROWTH_BIAS ? 
+      const layerBias = this.rng.next() < this.config.SURFACE_GROWTH_BIAS ? 
                         Math.floor(layers * 0.3) : // Upper 30% of layers
-                        Math.floor(Math.random() * layers);
+                        this.rng.nextInt(layers);
       const centerZ = layerBias;
       
       // Add nutrients in a sphere around the center
-      const radius = config.NUTRIENT_POCKET_RADIUS;
-      
-      // Only add boundary cells to activeCells
-      const boundaryPoints = new Set<string>();
+      const radius = this.config.NUTRIENT_POCKET_RADIUS;
       
       for (let dx = -radius; dx <= radius; dx++) {
         for (let dy = -radius; dy <= radius; dy++) {
@@ -114,30 +247,15 @@ export class EnvironmentGPU {
               if (x >= 0 && x < cols && y >= 0 && y < rows && z >= 0 && z < layers) {
                 // Add nutrients with falloff based on distance from center
                 const falloff = 1 - (distance / radius);
-                const nutrientAmount = config.NUTRIENT_POCKET_AMOUNT * falloff;
-                
-                this.nutrientGrid[x][y][z] += nutrientAmount;
+                const nutrientAmount = this.config.NUTRIENT_POCKET_AMOUNT * falloff;
                 
-                // Only add boundary cells or cells with high nutrient concentration
-                // to the active cells set to reduce memory usage
-                if (distance > radius - 1 || // Boundary cells
-                    falloff > 0.8) {         // High concentration cells
-                  boundaryPoints.add(`${x},${y},${z}`);
-                }
+                this.nutrients[this.cellIndex(x, y, z)] += nutrientAmount;
               }
             }
           }
         }
       }
-      
-      // Add more boundary points to active cells to ensure proper diffusion
-      let pointsToAdd = Math.min(boundaryPoints.size, 50); // Increased from 20 to 50 points per pocket
-      const boundaryArray = Array.from(boundaryPoints);
-      
-      for (let j = 0; j < pointsToAdd; j++) {
-        const index = Math.floor(Math.random() * boundaryArray.length);
-        this.activeCells.add(boundaryArray[index]);
-      }
+
     }
   }
 
@@ -149,35 +267,24 @@ export class EnvironmentGPU {
    * @param amount - Amount of nutrient to consume.
    * @returns The actual amount of nutrient consumed.
    */
-  public consumeResource(x: number, y: number, z: number = 0, amount: number = config.NUTRIENT_CONSUMPTION_RATE): number {
-    const gridX = Math.floor(x / config.ENV_GRID_CELL_SIZE);
-    const gridY = Math.floor(y / config.ENV_GRID_CELL_SIZE);
-    const gridZ = Math.floor(z / config.ENV_GRID_CELL_SIZE);
-    
+  public consumeResource(x: number, y: number, z: number = 0, amount: number = this.config.NUTRIENT_CONSUMPTION_RATE): number {
     // Support for backward compatibility with 2D calls
     if (arguments.length === 3) {
       amount = z;
       z = 0;
     }
 
-    if (
-      gridX >= 0 &&
-      gridX < this.nutrientGrid.length &&
-      gridY >= 0 &&
-      gridY < this.nutrientGrid[0].length &&
-      gridZ >= 0 &&
-      gridZ < this.nutrientGrid[0][0].length
-    ) {
-      const available = this.nutrientGrid[gridX][gridY][gridZ];
+    const index = this.positionToIndex(x, y, z);
+    if (index !== -1) {
+      const available = this.nutrients[index];
       const consumed = Math.min(amount, available);
-      this.nutrientGrid[gridX][gridY][gridZ] -= consumed;
-      
-      // Mark this cell as active for diffusion
-      if (this.nutrientGrid[gridX][gridY][gridZ] > 0) {
-        this.activeCells.add(`${gridX},${gridY},${gridZ}`);
-      }
+      this.nutrients[index] = available - consumed;
+      this.markDirty(index);
       
       return consumed;
+    } else if (this.boundaryBeyond(x, y, z) === "fixed") {
+      // The reservoir beyond a fixed face is never depleted
+      return Math.min(amount, this.config.BOUNDARY_FIXED_CONCENTRATION);
     } else {
       console.warn(`Attempted to consume nutrients out of nutrient grid bounds at (${x}, ${y}, ${z})`);
       return 0;
@@ -191,217 +298,335 @@ export class EnvironmentGPU {
    * @param z - Z-coordinate where nutrients are added.
    * @param amount - Amount of nutrient to add.
    */
-  public addNutrient(x: number, y: number, z: number = 0, amount: number = config.REPLENISHMENT_AMOUNT) {
-    const gridX = Math.floor(x / config.ENV_GRID_CELL_SIZE);
-    const gridY = Math.floor(y / config.ENV_GRID_CELL_SIZE);
-    const gridZ = Math.floor(z / config.ENV_GRID_CELL_SIZE);
-    
+  public addNutrient(x: number, y: number, z: number = 0, amount: number = this.config.REPLENISHMENT_AMOUNT) {
     // Support for backward compatibility with 2D calls
     if (arguments.length === 3) {
       amount = z;
       z = 0;
     }
 
-    if (
-      gridX >= 0 &&
-      gridX < this.nutrientGrid.length &&
-      gridY >= 0 &&
-      gridY < this.nutrientGrid[0].length &&
-      gridZ >= 0 &&
-      gridZ < this.nutrientGrid[0][0].length
-    ) {
-      this.nutrientGrid[gridX][gridY][gridZ] += amount;
-      
-      // Mark this cell as active for diffusion
-      this.activeCells.add(`${gridX},${gridY},${gridZ}`);
+    const index = this.positionToIndex(x, y, z);
+    if (index !== -1) {
+      this.nutrients[index] += amount;
+      this.markDirty(index);
     } else {
       console.warn(`Attempted to add nutrients out of nutrient grid bounds at (${x}, ${y}, ${z})`);
     }
   }
 
-  // Cache for 3D neighbor calculations
-  private neighborCache: Map<string, [number, number, number][]> = new Map();
-  
   /**
-   * Gets cached neighbors for a 3D grid cell
-   * @param x - X coordinate in grid
-   * @param y - Y coordinate in grid
-   * @param z - Z coordinate in grid
-   * @param cols - Total columns in grid
-   * @param rows - Total rows in grid
-   * @param layers - Total layers in grid
-   * @returns Array of valid neighbor coordinates
+   * Handles nutrient diffusion across the 3D grid.
+   * This method should be called periodically to simulate nutrient spread.
+   *
+   * Finite-volume scheme over the whole grid: each face between two cells
+   * carries a flux proportional to their difference, so whatever leaves one
+   * cell enters its neighbour. NUTRIENT_DIFFUSION and NUTRIENT_VERTICAL_DIFFUSION
+   * are the dimensionless coefficients D·Δt/Δx² applied per call in the
+   * horizontal (x, y) and vertical (z) directions.
+   *
+   * Each grid face follows its BOUNDARY_* condition: "no-flux" walls and
+   * "periodic" wrap-around conserve total nutrient, while "fixed" faces
+   * exchange with a reservoir held at BOUNDARY_FIXED_CONCENTRATION and
+   * "absorbing" faces drain into a zero-concentration sink.
    */
-  private getCachedNeighbors(
-    x: number, 
-    y: number, 
-    z: number, 
-    cols: number, 
-    rows: number, 
-    layers: number
-  ): [number, number, number][] {
-    const key = `${x},${y},${z}`;
-    
-    if (!this.neighborCache.has(key)) {
-      const neighbors: [number, number, number][] = [];
-      
-      // 6-connected neighborhood (face neighbors)
-      const potentialNeighbors = [
-        [x - 1, y, z],
-        [x + 1, y, z],
-        [x, y - 1, z],
-        [x, y + 1, z],
-        [x, y, z - 1],
-        [x, y, z + 1],
-      ];
-      
-      for (const [nx, ny, nz] of potentialNeighbors) {
-        if (nx >= 0 && nx < cols && ny >= 0 && ny < rows && nz >= 0 && nz < layers) {
-          neighbors.push([nx, ny, nz]);
+  public diffuseNutrients() {
+    const horizontal = this.config.NUTRIENT_DIFFUSION;
+    const vertical = this.config.NUTRIENT_VERTICAL_DIFFUSION;
+    if (horizontal <= 0 && vertical <= 0) {
+      return;
+    }
+
+    const boundaries = this.boundaries;
+    if (this.config.NUTRIENT_DIFFUSION_SOLVER === "implicit") {
+      this.diffuseImplicit(horizontal, vertical, boundaries);
+    } else {
+      this.diffuseExplicit(horizontal, vertical, boundaries);
+    }
+  }
+
+  /**
+   * Explicit (forward Euler) diffusion. The step is split into enough
+   * equal sub-steps to satisfy the CFL condition 4·Dh + 2·Dv <= 1.
+   */
+  private diffuseExplicit(
+    horizontal: number,
+    vertical: number,
+    boundaries: [AxisBoundary, AxisBoundary, AxisBoundary],
+  ) {
+    const stability = 2 * (2 * horizontal + vertical);
+    const subSteps = Math.max(1, Math.ceil(stability / EXPLICIT_STABILITY_LIMIT));
+    const dh = horizontal / subSteps;
+    const dv = vertical / subSteps;
+
+    for (let step = 0; step < subSteps; step++) {
+      this.nextDirtyTiles.fill(0);
+      for (let tx = 0; tx < this.tileCols; tx++) {
+        for (let ty = 0; ty < this.tileRows; ty++) {
+          if (this.needsDiffusion(tx, ty, boundaries)) {
+            this.diffuseTile(tx, ty, dh, dv, boundaries);
+          }
         }
       }
-      
-      this.neighborCache.set(key, neighbors);
-      
-      // Keep cache size reasonable
-      if (this.neighborCache.size > 10000) {
-        // Clear half the cache when it gets too large
-        const keys = Array.from(this.neighborCache.keys());
-        for (let i = 0; i < 5000; i++) {
-          this.neighborCache.delete(keys[i]);
+
+      // Swap buffers so the diffused field becomes current. Tiles that were
+      // skipped or did not change hold the same values in both buffers.
+      [this.nutrients, this.nextNutrients] = [this.nextNutrients, this.nutrients];
+      [this.dirtyTiles, this.nextDirtyTiles] = [this.nextDirtyTiles, this.dirtyTiles];
+    }
+  }
+
+  /**
+   * Checks whether a tile or one of its face neighbours (across periodic
+   * edges too) changed since the last sweep; otherwise every face flux
+   * inside the tile is still zero.
+   */
+  private needsDiffusion(
+    tx: number,
+    ty: number,
+    [boundaryX, boundaryY]: [AxisBoundary, AxisBoundary, AxisBoundary],
+  ): boolean {
+    const { tileCols, tileRows, dirtyTiles } = this;
+    const isDirty = (x: number, y: number) => dirtyTiles[x * tileRows + y] === 1;
+    const left = tx > 0 ? tx - 1 : boundaryX.periodic ? tileCols - 1 : -1;
+    const right = tx < tileCols - 1 ? tx + 1 : boundaryX.periodic ? 0 : -1;
+    const front = ty > 0 ? ty - 1 : boundaryY.periodic ? tileRows - 1 : -1;
+    const back = ty < tileRows - 1 ? ty + 1 : boundaryY.periodic ? 0 : -1;
+    return (
+      isDirty(tx, ty) ||
+      (left >= 0 && isDirty(left, ty)) ||
+      (right >= 0 && isDirty(right, ty)) ||
+      (front >= 0 && isDirty(tx, front)) ||
+      (back >= 0 && isDirty(tx, back))
+    );
+  }
+
+  /**
+   * Applies one explicit finite-volume update to the cells of a column tile,
+   * reading the front buffer and writing the back buffer. Marks the tile
+   * dirty if any cell changed.
+   */
+  private diffuseTile(
+    tx: number,
+    ty: number,
+    dh: number,
+    dv: number,
+    [boundaryX, boundaryY, boundaryZ]: [AxisBoundary, AxisBoundary, AxisBoundary],
+  ) {
+    const { cols, rows, layers } = this;
+    const current = this.nutrients;
+    const next = this.nextNutrients;
+    const strideX = rows * layers;
+    const strideY = layers;
+    const xEnd = Math.min(cols, (tx + 1) * DIFFUSION_TILE_SIZE);
+    const yEnd = Math.min(rows, (ty + 1) * DIFFUSION_TILE_SIZE);
+    const fixedLevel = this.config.BOUNDARY_FIXED_CONCENTRATION;
+    let changed = false;
+
+    // Reservoir faces of the current line: summed outside concentration and count
+    let reservoirSum = 0;
+    let reservoirCount = 0;
+    // Offset to the neighbour across a grid edge: the wrapped cell for a
+    // periodic face, otherwise 0 so the face difference vanishes and a
+    // reservoir face is added separately
+    const edgeOffset = (condition: BoundaryCondition, wrapOffset: number): number => {
+      if (condition === "periodic") {
+        return wrapOffset;
+      }
+      if (condition !== "no-flux") {
+        reservoirSum += reservoirLevel(condition, fixedLevel);
+        reservoirCount++;
+      }
+      return 0;
+    };
+
+    for (let x = tx * DIFFUSION_TILE_SIZE; x < xEnd; x++) {
+      for (let y = ty * DIFFUSION_TILE_SIZE; y < yEnd; y++) {
+        reservoirSum = 0;
+        reservoirCount = 0;
+        const left = x > 0 ? -strideX : edgeOffset(boundaryX.min, (cols - 1) * strideX);
+        const right = x < cols - 1 ? strideX : edgeOffset(boundaryX.max, -(cols - 1) * strideX);
+        const front = y > 0 ? -strideY : edgeOffset(boundaryY.min, (rows - 1) * strideY);
+        const back = y < rows - 1 ? strideY : edgeOffset(boundaryY.max, -(rows - 1) * strideY);
+        const start = (x * rows + y) * layers;
+        const end = start + layers - 1;
+
+        for (let z = 0; z < layers; z++) {
+          const i = start + z;
+          const value = current[i];
+          const below = z > 0 ? current[i - 1] : edgeValue(boundaryZ.min, current, end, value, fixedLevel);
+          const above = z < layers - 1 ? current[i + 1] : edgeValue(boundaryZ.max, current, start, value, fixedLevel);
+          const horizontalFlux =
+            current[i + left] + current[i + right] + current[i + front] + current[i + back] - 4 * value +
+            reservoirSum - reservoirCount * value;
+          next[i] = value + dh * horizontalFlux + dv * (below + above - 2 * value);
+          if (next[i] !== value) {
+            changed = true;
+          }
         }
       }
     }
-    
-    return this.neighborCache.get(key)!;
+
+    if (changed) {
+      this.nextDirtyTiles[tx * this.tileRows + ty] = 1;
+    }
   }
 
   /**
-   * Handles nutrient diffusion across the 3D grid.
-   * This method should be called periodically to simulate nutrient spread.
-   * Highly optimized to only process cells that have nutrients or are near cells with nutrients.
+   * Implicit diffusion using locally one-dimensional (LOD/ADI) splitting:
+   * one backward-Euler solve per axis. Unconditionally stable, so large
+   * coefficients need no sub-stepping.
    */
-  public diffuseNutrients() {
-    const cols = this.nutrientGrid.length;
-    const rows = this.nutrientGrid[0].length;
-    const layers = this.nutrientGrid[0][0].length;
-    
-    // If no active cells, skip diffusion
-    if (this.activeCells.size === 0) {
+  private diffuseImplicit(
+    horizontal: number,
+    vertical: number,
+    [boundaryX, boundaryY, boundaryZ]: [AxisBoundary, AxisBoundary, AxisBoundary],
+  ) {
+    const { cols, rows, layers } = this;
+    const field = this.nutrients;
+    this.solveAlongAxis(field, rows * layers, cols, cols * rows * layers, horizontal, boundaryX);
+    this.solveAlongAxis(field, layers, rows, rows * layers, horizontal, boundaryY);
+    this.solveAlongAxis(field, 1, layers, layers, vertical, boundaryZ);
+
+    // Implicit steps touch the whole grid; keep the back buffer in sync and
+    // let the next explicit step start from a full sweep
+    this.nextNutrients.set(field);
+    this.dirtyTiles.fill(1);
+  }
+
+  /**
+   * Solves (I - rate·L) u' = u in place along one axis, where L is the 1D
+   * Laplacian with the axis' boundary conditions. Cells along the axis are
+   * `stride` apart and the field splits into blocks of `blockSize` cells
+   * holding `stride` lines each. Every line shares the same matrix, so its
+   * factorisation is computed once and the Thomas sweeps run over all lines
+   * of a block together. Periodic axes add a Sherman-Morrison correction
+   * for the wrap-around corner entries.
+   * @param field - Field to update in place.
+   * @param stride - Index distance between neighbours along the axis.
+   * @param extent - Number of cells along the axis.
+   * @param blockSize - Number of cells in one block of lines.
+   * @param rate - Dimensionless diffusion coefficient.
+   * @param boundary - Boundary conditions of the axis.
+   */
+  private solveAlongAxis(
+    field: Float32Array,
+    stride: number,
+    extent: number,
+    blockSize: number,
+    rate: number,
+    boundary: AxisBoundary,
+  ) {
+    if (extent < 2 || rate <= 0) {
       return;
     }
-    
-    // Use a sparse update approach instead of creating a full new grid
-    const updates = new Map<string, number>();
-    
-    // Process only active cells and their neighbors
-    const cellsToProcess = new Set(this.activeCells);
-    const nextActiveCells = new Set<string>();
-    
-    // Increase the limit for active cells to ensure proper growth
-    const maxActiveCells = 20000;
-    
-    for (const cellKey of cellsToProcess) {
-      const [x, y, z] = cellKey.split(',').map(Number);
-      
-      if (x < 0 || x >= cols || y < 0 || y >= rows || z < 0 || z >= layers) continue;
-      
-      const currentValue = this.nutrientGrid[x][y][z];
-      
-      // Skip cells with negligible nutrients
-      if (currentValue < 0.1) continue;
-      
-      // Get cached neighbors
-      const neighbors = this.getCachedNeighbors(x, y, z, cols, rows, layers);
-      
-      let total = currentValue;
-      let count = 1;
-      
-      // Calculate diffusion with neighbors
-      for (const [nx, ny, nz] of neighbors) {
-        // Apply different diffusion rates for horizontal vs vertical diffusion
-        const diffusionRate = (nz === z) ? 
-                             config.NUTRIENT_DIFFUSION : // Horizontal diffusion
-                             config.NUTRIENT_VERTICAL_DIFFUSION; // Vertical diffusion
-        
-        // Weight the contribution based on diffusion rate
-        total += this.nutrientGrid[nx][ny][nz] * diffusionRate;
-        count += diffusionRate;
+    if (boundary.periodic && extent === 2) {
+      this.solvePeriodicPair(field, stride, blockSize, rate);
+      return;
+    }
+    const periodic = boundary.periodic;
+
+    // Main diagonal; an end row loses its outer neighbour on a no-flux face
+    const diagonal = new Float64Array(extent).fill(1 + 2 * rate);
+    if (periodic) {
+      // Sherman-Morrison split with gamma = -b moves the corners onto the diagonal
+      diagonal[0] += 1 + 2 * rate;
+      diagonal[extent - 1] += (rate * rate) / (1 + 2 * rate);
+    } else {
+      if (boundary.min === "no-flux") {
+        diagonal[0] -= rate;
       }
-      
-      // Calculate new value with diffusion
-      const avgValue = total / count;
-      const diffusionAmount = config.NUTRIENT_DIFFUSION * (avgValue - currentValue);
-      const newValue = currentValue + diffusionAmount;
-      
-      // Only update if the change is significant
-      if (Math.abs(diffusionAmount) > 0.01) {
-        updates.set(cellKey, newValue);
-        
-        // Mark this cell and some neighbors as active for next frame if it has nutrients
-        if (newValue > 0.1) {
-          // Add this cell to next active cells
-          if (nextActiveCells.size < maxActiveCells) {
-            nextActiveCells.add(cellKey);
-          }
-          
-          // Only add a subset of neighbors to prevent Set from growing too large
-          // Prioritize neighbors with higher nutrient values
-          const neighborValues: [string, number][] = [];
-          
-          for (const [nx, ny, nz] of neighbors) {
-            const neighborKey = `${nx},${ny},${nz}`;
-            const neighborValue = this.nutrientGrid[nx][ny][nz];
-            
-            if (neighborValue > 0.5) { // Lowered threshold from 1.0 to 0.5 to include more cells in diffusion
-              neighborValues.push([neighborKey, neighborValue]);
-            }
-          }
-          
-          // Sort neighbors by nutrient value (descending)
-          neighborValues.sort((a, b) => b[1] - a[1]);
-          
-          // Add more neighbors to next active cells to ensure proper diffusion
-          const neighborsToAdd = Math.min(4, neighborValues.length); // Increased from 2 to 4 neighbors per cell
-          
-          for (let i = 0; i < neighborsToAdd; i++) {
-            if (nextActiveCells.size < maxActiveCells) {
-              nextActiveCells.add(neighborValues[i][0]);
-            } else {
-              break; // Stop adding if we've reached the limit
-            }
-          }
+      if (boundary.max === "no-flux") {
+        diagonal[extent - 1] -= rate;
+      }
+    }
+
+    // Forward elimination coefficients: upper diagonal c' and 1 / pivot
+    const upper = new Float64Array(extent);
+    const inversePivot = new Float64Array(extent);
+    for (let k = 0; k < extent; k++) {
+      const pivot = k === 0 ? diagonal[0] : diagonal[k] + rate * upper[k - 1];
+      inversePivot[k] = 1 / pivot;
+      upper[k] = -rate / pivot;
+    }
+    const solveLines = (values: Float32Array | Float64Array, block: number, lines: number) => {
+      // Forward sweep
+      for (let i = block; i < block + lines; i++) {
+        values[i] *= inversePivot[0];
+      }
+      for (let k = 1; k < extent; k++) {
+        const start = block + k * lines;
+        const factor = inversePivot[k];
+        for (let i = start; i < start + lines; i++) {
+          values[i] = (values[i] + rate * values[i - lines]) * factor;
         }
-      } else if (currentValue > 1.0) { // Higher threshold for keeping cells active
-        // Keep cells with significant nutrients in the active set even if they didn't change much
-        if (nextActiveCells.size < maxActiveCells) {
-          nextActiveCells.add(cellKey);
+      }
+      // Back substitution
+      for (let k = extent - 2; k >= 0; k--) {
+        const start = block + k * lines;
+        const coefficient = upper[k];
+        for (let i = start; i < start + lines; i++) {
+          values[i] -= coefficient * values[i + lines];
         }
       }
+    };
+
+    // Correction vector z solving A'z = u with u = (gamma, 0, ..., 0, -rate)
+    const gamma = -(1 + 2 * rate);
+    const correction = new Float64Array(extent);
+    let correctionScale = 0;
+    if (periodic) {
+      correction[0] = gamma;
+      correction[extent - 1] = -rate;
+      solveLines(correction, 0, 1);
+      correctionScale = 1 + correction[0] - (rate / gamma) * correction[extent - 1];
     }
-    
-    // Apply updates to the grid
-    for (const [key, value] of updates) {
-      const [x, y, z] = key.split(',').map(Number);
-      this.nutrientGrid[x][y][z] = value;
-    }
-    
-    // If we have too few active cells, add some random cells with nutrients
-    if (nextActiveCells.size < 100) {
-      // Sample random cells from the grid
-      for (let i = 0; i < 100 && nextActiveCells.size < maxActiveCells; i++) {
-        const x = Math.floor(Math.random() * cols);
-        const y = Math.floor(Math.random() * rows);
-        const z = Math.floor(Math.random() * layers);
-        
-        if (this.nutrientGrid[x][y][z] > 1.0) {
-          nextActiveCells.add(`${x},${y},${z}`);
+
+    // Reservoir faces feed the end rows of every line
+    const fixedLevel = this.config.BOUNDARY_FIXED_CONCENTRATION;
+    const inflowMin = !periodic && boundary.min !== "no-flux" ? rate * reservoirLevel(boundary.min, fixedLevel) : 0;
+    const inflowMax = !periodic && boundary.max !== "no-flux" ? rate * reservoirLevel(boundary.max, fixedLevel) : 0;
+    const lastRow = (extent - 1) * stride;
+
+    for (let block = 0; block < field.length; block += blockSize) {
+      if (inflowMin !== 0 || inflowMax !== 0) {
+        for (let i = block; i < block + stride; i++) {
+          field[i] += inflowMin;
+          field[i + lastRow] += inflowMax;
+        }
+      }
+
+      solveLines(field, block, stride);
+
+      if (periodic) {
+        for (let i = block; i < block + stride; i++) {
+          const factor = (field[i] - (rate / gamma) * field[i + lastRow]) / correctionScale;
+          for (let k = 0; k < extent; k++) {
+            field[i + k * stride] -= factor * correction[k];
+          }
         }
       }
     }
-    
-    // Update active cells for next frame
-    this.activeCells = nextActiveCells;
+  }
+
+  /**
+   * Solves the implicit step along a periodic axis of two cells. Each cell
+   * neighbours the other across both faces, so L = [[-2, 2], [2, -2]]: the
+   * pair keeps its mean and its difference decays by 1 / (1 + 4·rate).
+   * @param field - Field to update in place.
+   * @param stride - Index distance between the two cells.
+   * @param blockSize - Number of cells in one block of lines.
+   * @param rate - Dimensionless diffusion coefficient.
+   */
+  private solvePeriodicPair(field: Float32Array, stride: number, blockSize: number, rate: number) {
+    const decay = 1 / (1 + 4 * rate);
+    for (let block = 0; block < field.length; block += blockSize) {
+      for (let i = block; i < block + stride; i++) {
+        const mean = (field[i] + field[i + stride]) / 2;
+        const halfDifference = ((field[i] - field[i + stride]) / 2) * decay;
+        field[i] = mean + halfDifference;
+        field[i + stride] = mean - halfDifference;
+      }
+    }
   }
 
   /**
@@ -409,22 +634,19 @@ export class EnvironmentGPU {
    * This method should be scheduled to run at intervals defined in config.
    */
   public replenishNutrients() {
-    const cols = this.nutrientGrid.length;
-    const rows = this.nutrientGrid[0].length;
-    const layers = this.nutrientGrid[0][0].length;
-    
+    const { origin, extents } = this.frame;
     // Example: Replenish nutrients in random locations
     for (let i = 0; i < 10; i++) {
       // Number of replenishment pockets
-      const x = Math.random() * this.width;
-      const y = Math.random() * this.height;
+      const x = origin.x + this.rng.next() * extents.x;
+      const y = origin.y + this.rng.next() * extents.y;
       
       // Bias towards upper layers for replenishment
-      const z = Math.random() < config.SURFACE_GROWTH_BIAS ? 
-                Math.random() * (this.depth * 0.3) : // Upper 30% of depth
-                Math.random() * this.depth;
+      const z = origin.z + (this.rng.next() < this.config.SURFACE_GROWTH_BIAS ? 
+                this.rng.next() * (extents.z * 0.3) : // Upper 30% of depth
+                this.rng.next() * extents.z);
                 
-      this.addNutrient(x, y, z, config.REPLENISHMENT_AMOUNT);
+      this.addNutrient(x, y, z, this.config.REPLENISHMENT_AMOUNT);
     }
   }
 
@@ -436,29 +658,105 @@ export class EnvironmentGPU {
    * @returns The nutrient level at the specified position.
    */
   public getNutrientLevel(x: number, y: number, z: number = 0): number {
-    const gridX = Math.floor(x / config.ENV_GRID_CELL_SIZE);
-    const gridY = Math.floor(y / config.ENV_GRID_CELL_SIZE);
-    const gridZ = Math.floor(z / config.ENV_GRID_CELL_SIZE);
-
-    if (
-      gridX >= 0 &&
-      gridX < this.nutrientGrid.length &&
-      gridY >= 0 &&
-      gridY < this.nutrientGrid[0].length &&
-      gridZ >= 0 &&
-      gridZ < this.nutrientGrid[0][0].length
-    ) {
-      return this.nutrientGrid[gridX][gridY][gridZ];
+    const index = this.positionToIndex(x, y, z);
+    if (index !== -1) {
+      return this.nutrients[index];
+    }
+    return this.boundaryBeyond(x, y, z) === "fixed" ? this.config.BOUNDARY_FIXED_CONCENTRATION : 0;
+  }
+
+  /**
+   * Samples the nutrient field at a 3D position with trilinear interpolation
+   * between cell centres, giving a continuous field instead of per-cell steps.
+   * Cells beyond the grid follow their face's boundary condition.
+   * @param x - X-coordinate.
+   * @param y - Y-coordinate.
+   * @param z - Z-coordinate.
+   * @returns The interpolated nutrient level.
+   */
+  public sampleNutrient(x: number, y: number, z: number = 0): number {
+    const boundaries = this.boundaries;
+    const grid = this.frame.worldToGrid(x, y, z);
+    // Shift so cell centres sit on integer coordinates
+    const gridX = grid.x - 0.5;
+    const gridY = grid.y - 0.5;
+    const gridZ = grid.z - 0.5;
+    const x0 = Math.floor(gridX);
+    const y0 = Math.floor(gridY);
+    const z0 = Math.floor(gridZ);
+    const tx = gridX - x0;
+    const ty = gridY - y0;
+    const tz = gridZ - z0;
+
+    let value = 0;
+    for (let corner = 0; corner < 8; corner++) {
+      const dx = corner & 1;
+      const dy = (corner >> 1) & 1;
+      const dz = corner >> 2;
+      const weight = (dx ? tx : 1 - tx) * (dy ? ty : 1 - ty) * (dz ? tz : 1 - tz);
+      if (weight > 0) {
+        value += weight * this.cellValue(x0 + dx, y0 + dy, z0 + dz, boundaries);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Gets the spatial gradient of the nutrient field from central differences
+   * of the interpolated field, one step either side of the position.
+   * @param x - X-coordinate.
+   * @param y - Y-coordinate.
+   * @param z - Z-coordinate.
+   * @param step - Distance sampled either side, in world units (defaults to one cell).
+   * @returns Gradient vector in nutrient units per world unit.
+   */
+  public getNutrientGradient(x: number, y: number, z: number = 0, step: number = this.frame.cellSize): Point3D {
+    return {
+      x: (this.sampleNutrient(x + step, y, z) - this.sampleNutrient(x - step, y, z)) / (2 * step),
+      y: (this.sampleNutrient(x, y + step, z) - this.sampleNutrient(x, y - step, z)) / (2 * step),
+      z: (this.sampleNutrient(x, y, z + step) - this.sampleNutrient(x, y, z - step)) / (2 * step),
+    };
+  }
+
+  /**
+   * Value of a grid cell, resolving cells beyond the grid through the
+   * boundary conditions: periodic faces wrap, no-flux faces mirror the edge
+   * cell, and reservoir faces return their fixed concentration.
+   */
+  private cellValue(
+    cellX: number,
+    cellY: number,
+    cellZ: number,
+    boundaries: [AxisBoundary, AxisBoundary, AxisBoundary],
+  ): number {
+    const cell = [cellX, cellY, cellZ];
+    const extents = [this.cols, this.rows, this.layers];
+    for (let axis = 0; axis < 3; axis++) {
+      const boundary = boundaries[axis];
+      if (boundary.periodic) {
+        cell[axis] = wrapCell(cell[axis], extents[axis], boundary);
+      } else if (cell[axis] < 0 || cell[axis] >= extents[axis]) {
+        const condition = cell[axis] < 0 ? boundary.min : boundary.max;
+        if (condition !== "no-flux") {
+          return reservoirLevel(condition, this.config.BOUNDARY_FIXED_CONCENTRATION);
+        }
+        cell[axis] = Math.min(Math.max(cell[axis], 0), extents[axis] - 1);
+      }
     }
-    return 0;
+    return this.nutrients[this.cellIndex(cell[0], cell[1], cell[2])];
   }
 
   /**
-   * Gets the entire 3D nutrient grid for visualization.
-   * @returns The 3D nutrient grid.
+   * Gets a copy of the entire 3D nutrient grid for visualization.
+   * @returns The 3D nutrient grid, indexed [x][y][z].
    */
   public getNutrientGrid(): number[][][] {
-    return this.nutrientGrid;
+    return Array.from({ length: this.cols }, (_, x) =>
+      Array.from({ length: this.rows }, (_, y) => {
+        const start = this.cellIndex(x, y, 0);
+        return Array.from(this.nutrients.subarray(start, start + this.layers));
+      }),
+    );
   }
 
   /**
@@ -467,29 +765,37 @@ export class EnvironmentGPU {
    * @param ctx - Canvas rendering context.
    */
   public drawNutrientGrid(ctx: CanvasRenderingContext2D) {
+    const { cellSize } = this.frame;
+    // The frame centre is drawn at the centre of the canvas
+    const center = this.frame.center;
+    const offsetX = ctx.canvas.width / 2 - center.x;
+    const offsetY = ctx.canvas.height / 2 - center.y;
+
     // For 2D visualization, we'll show a top-down view (z=0 layer)
-    for (let x = 0; x < this.nutrientGrid.length; x++) {
-      for (let y = 0; y < this.nutrientGrid[0].length; y++) {
+    for (let x = 0; x < this.cols; x++) {
+      for (let y = 0; y < this.rows; y++) {
         // Average nutrient levels across all z layers for visualization
         let totalNutrient = 0;
-        for (let z = 0; z < this.nutrientGrid[0][0].length; z++) {
-          totalNutrient += this.nutrientGrid[x][y][z];
+        for (let z = 0; z < this.layers; z++) {
+          totalNutrient += this.nutrients[this.cellIndex(x, y, z)];
         }
-        const avgNutrient = totalNutrient / this.nutrientGrid[0][0].length;
+        const avgNutrient = totalNutrient / this.layers;
         
         if (avgNutrient > 0) {
-          ctx.fillStyle = `rgba(0, 255, 0, ${avgNutrient / config.BASE_NUTRIENT})`; // Green with alpha based on nutrient level
+          const cellCenter = this.frame.cellToWorld(x, y, 0);
+          ctx.fillStyle = `rgba(0, 255, 0, ${avgNutrient / this.config.BASE_NUTRIENT})`; // Green with alpha based on nutrient level
           ctx.fillRect(
-            x * config.ENV_GRID_CELL_SIZE,
-            y * config.ENV_GRID_CELL_SIZE,
-            config.ENV_GRID_CELL_SIZE,
-            config.ENV_GRID_CELL_SIZE,
+            cellCenter.x - cellSize / 2 + offsetX,
+            cellCenter.y - cellSize / 2 + offsetY,
+            cellSize,
+            cellSize,
           );
         }
       }
     }
   }
 
+
   /**
    * Renders the nutrient grid as a visualization.
    * @param ctx - The 2D rendering context of the main canvas.
@@ -500,23 +806,109 @@ export class EnvironmentGPU {
     // is now handled by making the hyphae trunks glow green.
   }
   
+  /**
+   * Captures the complete environment state.
+   * @returns Grid dimensions, flattened nutrient values and active cells.
+   */
+  public exportState(): EnvironmentState {
+    return {
+      width: this.width,
+      height: this.height,
+      frame: this.frame.toState(),
+      cols: this.cols,
+      rows: this.rows,
+      layers: this.layers,
+      nutrients: Array.from(this.nutrients),
+    };
+  }
+
+  /**
+   * Replaces the environment with a previously exported state, taking its
+   * boundary conditions from the current config.
+   * @param state - State obtained from exportState().
+   * @throws Error if the nutrient data does not fill the grid, or only one
+   * face of an axis is periodic.
+   */
+  public importState(state: EnvironmentState): void {
+    const { cols, rows, layers, nutrients } = state;
+    if (nutrients.length !== cols * rows * layers) {
+      throw new Error(
+        `Nutrient data length ${nutrients.length} does not match grid ${cols}x${rows}x${layers}`,
+      );
+    }
+    this.boundaries = this.resolveBoundaries();
+
+    this.width = state.width;
+    this.height = state.height;
+    this.frame = WorldFrame.fromState(state.frame);
+    this.allocate(cols, rows, layers);
+    this.nutrients.set(nutrients);
+    this.nextNutrients.set(nutrients);
+  }
+
   /**
    * Reset the environment to initial state
    * This avoids recreating the full environment object when parameters change
+   * @throws Error if only one face of an axis is periodic; the environment is
+   * left unchanged.
    */
   public reset(): void {
-    // Clear existing data
-    this.nutrientGrid = [];
-    this.activeCells.clear();
-    this.neighborCache.clear();
+    this.boundaries = this.resolveBoundaries();
     
-    // Recalculate dimensions (in case GROWTH_HEIGHT_FACTOR changed)
-    const radius = Math.min(this.width, this.height) * config.GROWTH_RADIUS_FACTOR;
-    this.depth = Math.ceil(radius * config.GROWTH_HEIGHT_FACTOR * 2);
+    // Recalculate the frame (in case the growth volume or cell size changed)
+    this.frame = WorldFrame.forGrowthVolume(this.width, this.height, this.config);
     
     // Reinitialize the grid
     this.initializeNutrientGrid();
     
-    console.log(`EnvironmentGPU reset with dimensions ${this.width}x${this.height}x${this.depth}`);
+    const { extents } = this.frame;
+    console.log(`EnvironmentGPU reset with dimensions ${extents.x}x${extents.y}x${extents.z}`);
+  }
+}
+
+/**
+ * Wraps a cell coordinate around a periodic axis.
+ * @param cell - Cell coordinate, possibly outside [0, extent).
+ * @param extent - Number of cells along the axis.
+ * @param boundary - Boundary conditions of the axis.
+ * @returns The wrapped coordinate, or the input on a non-periodic axis.
+ */
+function wrapCell(cell: number, extent: number, boundary: AxisBoundary): number {
+  return boundary.periodic ? ((cell % extent) + extent) % extent : cell;
+}
+
+/**
+ * Concentration held outside a reservoir face.
+ * @param condition - A "fixed" or "absorbing" boundary condition.
+ * @param fixedLevel - Concentration beyond "fixed" faces.
+ * @returns The reservoir concentration.
+ */
+function reservoirLevel(condition: BoundaryCondition, fixedLevel: number): number {
+  return condition === "fixed" ? fixedLevel : 0;
+}
+
+/**
+ * Value seen across a grid edge along the contiguous z axis.
+ * @param condition - Boundary condition of the face.
+ * @param field - Nutrient field.
+ * @param wrapIndex - Cell on the opposite side of the line, for periodic faces.
+ * @param value - Value of the edge cell itself.
+ * @param fixedLevel - Concentration beyond "fixed" faces.
+ * @returns The neighbour value used in the face flux.
+ */
+function edgeValue(
+  condition: BoundaryCondition,
+  field: Float32Array,
+  wrapIndex: number,
+  value: number,
+  fixedLevel: number,
+): number {
+  switch (condition) {
+    case "periodic":
+      return field[wrapIndex];
+    case "no-flux":
+      return value;
+    default:
+      return reservoirLevel(condition, fixedLevel);
   }
 }
@@ -0,0 +1,165 @@
+// src/graphExport.ts
+
+import {
+  MycelialNetwork,
+  NetworkEdge,
+  NetworkNode,
+} from "./mycelialNetwork.js";
+
+/**
+ * graphExport.ts
+ *
+ * Serializes the mycelial network graph to GraphML and GEXF so colonies
+ * can be analyzed with standard network-science tooling (Gephi, NetworkX).
+ */
+
+// Node and edge attributes shared by both formats: [id, GraphML type]
+const NODE_ATTRIBUTES: [keyof NetworkNode, string][] = [
+  ["x", "double"],
+  ["y", "double"],
+  ["z", "double"],
+  ["resource", "double"],
+  ["depth", "int"],
+  ["growthType", "string"],
+  ["colonyId", "int"],
+];
+const EDGE_ATTRIBUTES: [keyof NetworkEdge, string][] = [
+  ["length", "double"],
+  ["flow", "double"],
+  ["radius", "double"],
+];
+
+/**
+ * Exports the network as a GraphML document.
+ * @param network - The network to export.
+ * @returns GraphML XML text.
+ */
+export function exportGraphML(network: MycelialNetwork): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+  ];
+
+  for (const [id, type] of NODE_ATTRIBUTES) {
+    lines.push(
+      `  <key id="${id}" for="node" attr.name="${id}" attr.type="${type}"/>`,
+    );
+  }
+  for (const [id, type] of EDGE_ATTRIBUTES) {
+    lines.push(
+      `  <key id="${id}" for="edge" attr.name="${id}" attr.type="${type}"/>`,
+    );
+  }
+
+  lines.push('  <graph id="mycelium" edgedefault="undirected">');
+
+  for (const node of network.getNodes()) {
+    lines.push(`    <node id="n${node.id}">`);
+    for (const [id] of NODE_ATTRIBUTES) {
+      if (node[id] !== undefined) {
+        lines.push(`      <data key="${id}">${escapeXml(node[id])}</data>`);
+      }
+    }
+    lines.push("    </node>");
+  }
+
+  for (const edge of network.getEdges()) {
+    lines.push(
+      `    <edge id="e${edge.id}" source="n${edge.source}" target="n${edge.target}">`,
+    );
+    for (const [id] of EDGE_ATTRIBUTES) {
+      lines.push(`      <data key="${id}">${escapeXml(edge[id])}</data>`);
+    }
+    lines.push("    </edge>");
+  }
+
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+/**
+ * Exports the network as a GEXF 1.3 document.
+ * Node positions are also written to the viz namespace for Gephi layouts.
+ * @param network - The network to export.
+ * @returns GEXF XML text.
+ */
+export function exportGEXF(network: MycelialNetwork): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <graph defaultedgetype="undirected" mode="static">',
+    '    <attributes class="node">',
+  ];
+
+  for (const [id, type] of NODE_ATTRIBUTES) {
+    lines.push(
+      `      <attribute id="${id}" title="${id}" type="${gexfType(type)}"/>`,
+    );
+  }
+  lines.push("    </attributes>", '    <attributes class="edge">');
+  for (const [id, type] of EDGE_ATTRIBUTES) {
+    lines.push(
+      `      <attribute id="${id}" title="${id}" type="${gexfType(type)}"/>`,
+    );
+  }
+  lines.push("    </attributes>", "    <nodes>");
+
+  for (const node of network.getNodes()) {
+    lines.push(`      <node id="${node.id}" label="${node.id}">`);
+    lines.push("        <attvalues>");
+    for (const [id] of NODE_ATTRIBUTES) {
+      if (node[id] !== undefined) {
+        lines.push(
+          `          <attvalue for="${id}" value="${escapeXml(node[id])}"/>`,
+        );
+      }
+    }
+    lines.push("        </attvalues>");
+    lines.push(
+      `        <viz:position x="${node.x}" y="${node.y}" z="${node.z}"/>`,
+    );
+    lines.push("      </node>");
+  }
+
+  lines.push("    </nodes>", "    <edges>");
+
+  for (const edge of network.getEdges()) {
+    lines.push(
+      `      <edge id="${edge.id}" source="${edge.source}" target="${edge.target}">`,
+    );
+    lines.push("        <attvalues>");
+    for (const [id] of EDGE_ATTRIBUTES) {
+      lines.push(
+        `          <attvalue for="${id}" value="${escapeXml(edge[id])}"/>`,
+      );
+    }
+    lines.push("        </attvalues>");
+    lines.push("      </edge>");
+  }
+
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return lines.join("\n");
+}
+
+/**
+ * Maps a GraphML attribute type to its GEXF name.
+ * @param type - GraphML attribute type.
+ * @returns GEXF attribute type.
+ */
+function gexfType(type: string): string {
+  return type === "int" ? "integer" : type;
+}
+
+/**
+ * Escapes a value for use in XML text or attribute content.
+ * @param value - The value to escape.
+ * @returns Escaped string.
+ */
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
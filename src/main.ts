@@ -1,11 +1,31 @@
 // src/main.ts
 
-import { config } from "./constants.js";
+import {
+  applyConfig,
+  configFromURLParams,
+  getChangedKeys,
+  getConfigKeys,
+  getParameterSchema,
+  needsReset,
+} from "./configSchema.js";
+import { Config, config } from "./constants.js";
 import { GrowthManager } from "./growth.js";
 import { EnvironmentGPU } from "./environmentGPU.js";
+import { exportGEXF, exportGraphML } from "./graphExport.js";
+import { computeNetworkStats } from "./networkStats.js";
 import { MycelialNetwork } from "./mycelialNetwork.js";
 import { Perlin } from "./Perlin.js";
+import { applyPreset, getPresetNames } from "./presets.js";
+import { Random } from "./random.js";
 import { Renderer3D } from "./renderer3D.js";
+import {
+  createSnapshot,
+  decodeSnapshot,
+  encodeSnapshot,
+  restoreSnapshot,
+  snapshotFromJSON,
+  snapshotToJSON,
+} from "./snapshot.js";
 import * as dat from "dat.gui";
 
 // Get the main canvas for 2D rendering
@@ -69,6 +89,16 @@ document.body.appendChild(pauseButton);
 // Add pause state variable
 let isPaused = false;
 
+// Outcome of the last config or snapshot load, shown at the top of the GUI
+const loadStatus = { message: "" };
+
+// Apply config overrides from the page URL, e.g. ?BRANCH_CHANCE=0.4
+try {
+  applyConfig(config, configFromURLParams(new URLSearchParams(window.location.search)));
+} catch (error) {
+  loadStatus.message = `Ignored config from URL: ${error}`;
+}
+
 // Initialize 3D renderer
 let renderer3D: Renderer3D | null = null;
 if (config.ENABLE_3D) {
@@ -99,9 +129,16 @@ function resetSimulation() {
       growth.clear();
     }
 
+    // Restart the shared PRNG so the same seed reproduces the same colony
+    rng.reseed(config.RANDOM_SEED);
+
     // Reinitialize components (reuse existing instances to improve performance)
-    if (!perlin) perlin = new Perlin();
-    if (!envGPU) envGPU = new EnvironmentGPU(canvas.width, canvas.height);
+    if (!perlin) {
+      perlin = new Perlin(rng);
+    } else {
+      perlin.seed(rng); // Reshuffle from the restarted PRNG
+    }
+    if (!envGPU) envGPU = new EnvironmentGPU(canvas.width, canvas.height, rng);
     else envGPU.reset(); // Just reset the existing instance
     
     if (!network) network = new MycelialNetwork();
@@ -125,6 +162,7 @@ function resetSimulation() {
         envGPU,
         network,
         renderer3D, // Pass the 3D renderer
+        rng,
       );
     }
     
@@ -135,7 +173,7 @@ function resetSimulation() {
     if (config.ENABLE_3D && renderer3D && config.SHOW_NUTRIENT_ENVIRONMENT) {
       renderer3D.visualizeNutrientEnvironment(
         envGPU.getNutrientGrid(),
-        config.ENV_GRID_CELL_SIZE
+        envGPU.getFrame()
       );
     }
     
@@ -150,23 +188,41 @@ function resetSimulation() {
   });
 }
 
+/**
+ * Brings the running simulation in line with changed parameters: live ones
+ * only restyle what is already drawn, structural ones regrow the colony.
+ */
+function applyConfigChanges(changed: (keyof Config)[]) {
+  if (needsReset(changed)) {
+    resetSimulation();
+  } else if (renderer3D) {
+    renderer3D.updateMaterials();
+  }
+}
+
 // Global references
 let growth: GrowthManager;
 let envGPU: EnvironmentGPU;
 let network: MycelialNetwork;
 let perlin: Perlin;
 
+// Single seeded PRNG shared by every stochastic component
+const rng = new Random(config.RANDOM_SEED);
+
 /**
  * Initialize the simulation and all required components.
  */
 const setup = () => {
   resizeCanvas();
 
+  // Restart the shared PRNG from the configured seed
+  rng.reseed(config.RANDOM_SEED);
+
   // Initialize Perlin noise
-  perlin = new Perlin();
+  perlin = new Perlin(rng);
 
   // Initialize environment GPU
-  envGPU = new EnvironmentGPU(canvas.width, canvas.height);
+  envGPU = new EnvironmentGPU(canvas.width, canvas.height, rng);
 
   // Initialize mycelial network
   network = new MycelialNetwork();
@@ -182,6 +238,7 @@ const setup = () => {
     envGPU,
     network,
     renderer3D, // Pass the 3D renderer
+    rng,
   );
   growth.init();
   
@@ -189,7 +246,7 @@ const setup = () => {
   if (config.ENABLE_3D && renderer3D && config.SHOW_NUTRIENT_ENVIRONMENT) {
     renderer3D.visualizeNutrientEnvironment(
       envGPU.getNutrientGrid(),
-      config.ENV_GRID_CELL_SIZE
+      envGPU.getFrame()
     );
   }
 
@@ -211,9 +268,115 @@ const animate = () => {
   requestAnimationFrame(animate);
 };
 
+/**
+ * Offers the given data to the user as a file download.
+ */
+const downloadFile = (data: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Saves the current simulation state as a JSON or compact binary snapshot.
+ */
+const saveSnapshot = (binary: boolean) => {
+  const snapshot = createSnapshot(growth.getSimulation());
+  const name = `mycelium-${snapshot.simulation.frameCount}`;
+  if (binary) {
+    downloadFile(
+      encodeSnapshot(snapshot),
+      `${name}.mycs`,
+      "application/octet-stream",
+    );
+  } else {
+    downloadFile(snapshotToJSON(snapshot), `${name}.json`, "application/json");
+  }
+};
+
+/**
+ * Saves the current network graph as GraphML or GEXF.
+ */
+const saveGraph = (format: "graphml" | "gexf") => {
+  const xml = format === "graphml" ? exportGraphML(network) : exportGEXF(network);
+  downloadFile(xml, `mycelium-network.${format}`, "application/xml");
+};
+
+/**
+ * Shows the outcome of a config or snapshot load in the GUI.
+ */
+const showLoadStatus = (message: string) => {
+  loadStatus.message = message;
+  gui?.updateDisplay();
+};
+
+/**
+ * Prompts for a snapshot file and resumes the simulation from it.
+ */
+const loadSnapshot = () => {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json,.mycs";
+  input.addEventListener("change", async () => {
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const snapshot = file.name.endsWith(".json")
+        ? snapshotFromJSON(await file.text())
+        : decodeSnapshot(await file.arrayBuffer());
+      restoreSnapshot(growth.getSimulation(), snapshot);
+      showLoadStatus("");
+    } catch (error) {
+      showLoadStatus(`Failed to load snapshot: ${error}`);
+    }
+  });
+  input.click();
+};
+
+/**
+ * Saves the current config as JSON.
+ */
+const saveConfig = () => {
+  downloadFile(JSON.stringify(config, null, 2), "mycelium-config.json", "application/json");
+};
+
+/**
+ * Prompts for a JSON config file, validates it and restarts the simulation
+ * with it. Invalid files are rejected without changing the config.
+ */
+const loadConfig = () => {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json";
+  input.addEventListener("change", async () => {
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const before = { ...config };
+      applyConfig(config, JSON.parse(await file.text()));
+      showLoadStatus("");
+      applyConfigChanges(getChangedKeys(before, config));
+    } catch (error) {
+      showLoadStatus(`Failed to load config: ${error}`);
+    }
+  });
+  input.click();
+};
+
 // GUI for dynamic configuration
+let gui: dat.GUI | null = null;
 const initGUI = () => {
-  const gui = new dat.GUI();
+  gui = new dat.GUI();
+  gui.add(loadStatus, "message").name("Status");
 
   // const growthFolder = gui.addFolder("Growth Parameters");
   // growthFolder.add(config, "STEP_SIZE", 0.1, 10, 0.1).name("Step Size");
@@ -248,9 +411,17 @@ const initGUI = () => {
 
   // Create GUI folders and controllers
 
-  // Canvas & Growth Parameters
-  const growthFolder = gui.addFolder("Growth Parameters");
-  
+  // Species presets replace every parameter below (except the seed)
+  gui
+    .add(config, "PRESET", getPresetNames())
+    .name("Species Preset")
+    .onChange((name: string) => {
+      const before = { ...config };
+      applyPreset(name);
+      gui?.updateDisplay();
+      applyConfigChanges(getChangedKeys(before, config));
+    });
+
   // Debounce function to prevent frequent resets
   let resetTimeout: number | null = null;
   const debouncedReset = (delay = 300) => {
@@ -261,311 +432,114 @@ const initGUI = () => {
       resetSimulation();
     }, delay) as unknown as number;
   };
-  
-  growthFolder
-    .add(config, "GROWTH_RADIUS_FACTOR", 0.0, 1.0)
-    .step(0.01)
-    .name("Growth Radius Factor")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "MAIN_BRANCH_COUNT", 1, 100)
-    .step(1)
-    .name("Main Branch Count")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "STEP_SIZE", 0, 5)
-    .step(0.1)
-    .name("Step Size")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "GROWTH_SPEED_MULTIPLIER", 0.0, 1.0)
-    .step(0.1)
-    .name("Growth Speed")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "BASE_LIFE", 0, 5000)
-    .step(100)
-    .name("Base Life")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "BRANCH_DECAY", 0.0, 1.0)
-    .step(0.05)
-    .name("Branch Decay")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "BRANCH_CHANCE", 0.0, 1.0)
-    .step(0.01)
-    .name("Branch Chance")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "MAX_BRANCH_DEPTH", 0, 1000)
-    .step(1)
-    .name("Max Branch Depth")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "ANGLE_DRIFT_STRENGTH", 0.0, 0.2)
-    .step(0.01)
-    .name("Angle Drift")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "WIGGLE_STRENGTH", 0.0, 1.0)
-    .step(0.05)
-    .name("Wiggle Strength")
-    .onChange(() => debouncedReset());
-  growthFolder
-    .add(config, "PERLIN_SCALE", 0.01, 0.2)
-    .step(0.01)
-    .name("Perlin Scale")
-    .onChange(() => debouncedReset());
-  growthFolder.open();
-  
-  // 3D Growth Parameters
-  const growth3DFolder = gui.addFolder("3D Growth Parameters");
-
-  growth3DFolder
-    .add(config, "ENABLE_3D")
-    .name("Enable 3D Growth")
-    .onChange(() => resetSimulation()); // Immediate reset for binary toggles
-  growth3DFolder
-    .add(config, "GROWTH_HEIGHT_FACTOR", 0.1, 2.0)
-    .step(0.1)
-    .name("Growth Height Factor")
-    .onChange(() => debouncedReset());
-  growth3DFolder
-    .add(config, "VERTICAL_ANGLE_DRIFT_STRENGTH", 0.0, 0.2)
-    .step(0.01)
-    .name("Vertical Angle Drift")
-    .onChange(() => debouncedReset());
-  growth3DFolder
-    .add(config, "VERTICAL_WIGGLE_STRENGTH", 0.0, 1.0)
-    .step(0.05)
-    .name("Vertical Wiggle")
-    .onChange(() => debouncedReset());
-  growth3DFolder
-    .add(config, "GRAVITY_INFLUENCE", 0.0, 1.0)
-    .step(0.05)
-    .name("Gravity Influence")
-    .onChange(() => debouncedReset());
-  growth3DFolder
-    .add(config, "SURFACE_GROWTH_BIAS", 0.0, 1.0)
-    .step(0.05)
-    .name("Surface Growth Bias")
-    .onChange(() => debouncedReset());
-  growth3DFolder.open();
-
-  // Environmental Parameters
-  const envFolder = gui.addFolder("Environmental Parameters");
-  envFolder
-    .add(config, "ENV_GRID_CELL_SIZE", 0.5, 5)
-    .step(0.5)
-    .name("Grid Cell Size")
-    .onChange(() => debouncedReset());
-  envFolder
-    .add(config, "BASE_NUTRIENT", 50, 200)
-    .step(10)
-    .name("Base Nutrient")
-    .onChange(() => debouncedReset());
-  envFolder
-    .add(config, "NUTRIENT_DIFFUSION", 0.0, 1.0)
-    .step(0.05)
-    .name("Nutrient Diffusion")
-    .onChange(() => debouncedReset());
-  envFolder
-    .add(config, "NUTRIENT_CONSUMPTION_RATE", 0.1, 5.0)
-    .step(0.1)
-    .name("Nutrient Consumption")
-    .onChange(() => debouncedReset());
-  envFolder.open();
-
-  // Nutrient Pockets Parameters
-  const pocketFolder = gui.addFolder("Nutrient Pockets");
-  pocketFolder
-    .add(config, "NUTRIENT_POCKET_RADIUS", 1, 5)
-    .step(1)
-    .name("Pocket Radius")
-    .onChange(resetSimulation);
-  pocketFolder
-    .add(config, "NUTRIENT_POCKET_AMOUNT", 50, 200)
-    .step(10)
-    .name("Pocket Amount")
-    .onChange(resetSimulation);
-  pocketFolder
-    .add(config, "NUTRIENT_POCKET_DECAY_RATE", 0.1, 1.0)
-    .step(0.1)
-    .name("Pocket Decay Rate")
-    .onChange(resetSimulation);
-  pocketFolder.open();
-
-  // Mycelial Network Parameters
-  const networkFolder = gui.addFolder("Mycelial Network");
-  networkFolder
-    .add(config, "INITIAL_RESOURCE_PER_TIP", 1000, 5000)
-    .step(100)
-    .name("Initial Resource per Tip")
-    .onChange(resetSimulation);
-  networkFolder
-    .add(config, "RESOURCE_FLOW_RATE", 0.5, 5.0)
-    .step(0.1)
-    .name("Resource Flow Rate")
-    .onChange(resetSimulation);
-  networkFolder.open();
-
-  // Growth Simulation Parameters
-  const simFolder = gui.addFolder("Simulation Parameters");
-  simFolder
-    .add(config, "TIME_LAPSE_FACTOR", 1, 10)
-    .step(1)
-    .name("Time Lapse Factor")
-    .onChange(resetSimulation);
-  simFolder
-    .add(config, "SECONDARY_FAN_COUNT", 0.0, 3)
-    .step(0.01)
-    .name("Secondary Fan Count")
-    .onChange(resetSimulation);
-  simFolder
-    .add(config, "WIDER_SECONDARY_ANGLE", 0, Math.PI / 2)
-    .step(0.1)
-    .name("Secondary Angle")
-    .onChange(resetSimulation);
-  simFolder.open();
-
-  // Rendering Parameters
-  const renderFolder = gui.addFolder("Rendering Parameters");
-  renderFolder
-    .add(config, "BACKGROUND_ALPHA", 0.0, 0.1)
-    .step(0.01)
-    .name("Background Alpha")
-    .onChange(resetSimulation);
-  renderFolder
-    .add(config, "FADE_START_FACTOR", 0.5, 1.0)
-    .step(0.05)
-    .name("Fade Start Factor")
-    .onChange(resetSimulation);
-  renderFolder
-    .add(config, "FADE_END_FACTOR", 0.8, 1.2)
-    .step(0.05)
-    .name("Fade End Factor")
-    .onChange(resetSimulation);
-  renderFolder
-    .add(config, "SHADOW_BLUR", 0, 20)
-    .step(1)
-    .name("Shadow Blur")
-    .onChange(resetSimulation);
-  renderFolder
-    .addColor(config, "SHADOW_COLOR")
-    .name("Shadow Color")
-    .onChange(resetSimulation);
-  renderFolder.open();
-
-  // Line Rendering Parameters
-  const lineFolder = gui.addFolder("Line Rendering");
-  lineFolder
-    .add(config, "MAIN_LINE_WIDTH", 1, 5)
-    .step(0.5)
-    .name("Main Line Width")
-    .onChange(resetSimulation);
-  lineFolder
-    .add(config, "SECONDARY_LINE_WIDTH", 0.5, 3)
-    .step(0.5)
-    .name("Secondary Line Width")
-    .onChange(resetSimulation);
-  lineFolder
-    .add(config, "MAIN_ALPHA", 0.5, 1.0)
-    .step(0.05)
-    .name("Main Alpha")
-    .onChange(resetSimulation);
-  lineFolder
-    .add(config, "SECONDARY_ALPHA", 0.3, 1.0)
-    .step(0.05)
-    .name("Secondary Alpha")
-    .onChange(resetSimulation);
-  lineFolder.open();
-
-  // Color Parameters
-  const colorFolder = gui.addFolder("Color Parameters");
-  colorFolder
-    .add(config, "BASE_HUE", 0, 360)
-    .step(1)
-    .name("Base Hue")
-    .onChange(resetSimulation);
-  colorFolder
-    .add(config, "BASE_LIGHTNESS", 50, 100)
-    .step(1)
-    .name("Base Lightness")
-    .onChange(resetSimulation);
-  colorFolder
-    .add(config, "NUTRIENT_HUE", 0, 360)
-    .step(1)
-    .name("Nutrient Color")
-    .onChange(resetSimulation);
-  colorFolder
-    .add(config, "LIGHTNESS_STEP", 1, 10)
-    .step(1)
-    .name("Lightness Step")
-    .onChange(resetSimulation);
-  colorFolder.open();
-
-  // Miscellaneous Parameters
-  const miscFolder = gui.addFolder("Miscellaneous");
-  miscFolder
-    .add(config, "ANASTOMOSIS_RADIUS", 0.01, 1)
-    .step(0.01)
-    .name("Anastomosis Radius")
-    .onChange(resetSimulation);
-  miscFolder.open();
-  
-  // 3D Rendering Parameters
-  const render3DFolder = gui.addFolder("3D Rendering");
-  render3DFolder
-    .add(config, "SHOW_NODES_3D")
-    .name("Show Nodes")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "NODE_OPACITY", 0.0, 1.0)
-    .step(0.05)
-    .name("Node Opacity")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "NETWORK_VISUALIZATION")
-    .name("Show Network")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "SHOW_NUTRIENT_ENVIRONMENT")
-    .name("Show Nutrients")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "NUTRIENT_POINT_SIZE", 0.5, 5.0)
-    .step(0.1)
-    .name("Nutrient Point Size")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "NUTRIENT_POINT_OPACITY", 0.0, 1.0)
-    .step(0.05)
-    .name("Nutrient Opacity")
-    .onChange(resetSimulation);
-  render3DFolder
-    .add(config, "CAMERA_DISTANCE", 50, 200)
-    .step(10)
-    .name("Camera Distance")
-    .onChange(() => {
-      if (renderer3D) {
-        renderer3D.setCameraDistance(config.CAMERA_DISTANCE);
-      }
-    });
-  render3DFolder
-    .add(config, "CAMERA_FOV", 30, 100)
-    .step(5)
-    .name("Camera FOV")
-    .onChange(() => {
-      if (renderer3D) {
-        renderer3D.setCameraFOV(config.CAMERA_FOV);
-      }
-    });
-  render3DFolder.open();
+
+  // Periodic faces only make sense in pairs, so keep both faces in step
+  type BoundaryFace = "BOUNDARY_X_MIN" | "BOUNDARY_X_MAX" | "BOUNDARY_Y_MIN" | "BOUNDARY_Y_MAX" | "BOUNDARY_Z_MIN" | "BOUNDARY_Z_MAX";
+  const pairFaces = (changed: BoundaryFace, opposite: BoundaryFace) => () => {
+    if (config[changed] === "periodic") {
+      config[opposite] = "periodic";
+    } else if (config[opposite] === "periodic") {
+      config[opposite] = "no-flux";
+    }
+    gui?.updateDisplay();
+    debouncedReset();
+  };
+
+  // Parameters needing more than the default handling when changed
+  const changeHandlers: Partial<Record<keyof Config, () => void>> = {
+    BOUNDARY_X_MIN: pairFaces("BOUNDARY_X_MIN", "BOUNDARY_X_MAX"),
+    BOUNDARY_X_MAX: pairFaces("BOUNDARY_X_MAX", "BOUNDARY_X_MIN"),
+    BOUNDARY_Y_MIN: pairFaces("BOUNDARY_Y_MIN", "BOUNDARY_Y_MAX"),
+    BOUNDARY_Y_MAX: pairFaces("BOUNDARY_Y_MAX", "BOUNDARY_Y_MIN"),
+    BOUNDARY_Z_MIN: pairFaces("BOUNDARY_Z_MIN", "BOUNDARY_Z_MAX"),
+    BOUNDARY_Z_MAX: pairFaces("BOUNDARY_Z_MAX", "BOUNDARY_Z_MIN"),
+    CAMERA_DISTANCE: () => renderer3D?.setCameraDistance(config.CAMERA_DISTANCE),
+    CAMERA_FOV: () => renderer3D?.setCameraFOV(config.CAMERA_FOV),
+  };
+
+  // One folder per schema group, in the order the groups first appear
+  const folders = new Map<string, dat.GUI>();
+  for (const key of getConfigKeys()) {
+    const schema = getParameterSchema(key);
+    if (!schema.group) {
+      continue;
+    }
+
+    let folder = folders.get(schema.group);
+    if (!folder) {
+      folder = gui.addFolder(schema.group);
+      folder.open();
+      folders.set(schema.group, folder);
+    }
+
+    let controller: dat.GUIController;
+    switch (schema.type) {
+      case "number":
+        controller = folder.add(config, key, schema.min, schema.max).step(schema.step);
+        break;
+      case "choice":
+        controller = folder.add(config, key, schema.options as string[]);
+        break;
+      case "color":
+        controller = folder.addColor(config, key);
+        break;
+      default:
+        controller = folder.add(config, key);
+    }
+    controller.name(schema.label ?? key);
+
+    // Structural parameters regrow the colony; live ones apply to the run in progress
+    const handler = changeHandlers[key];
+    if (handler) {
+      controller.onChange(handler);
+    } else if (!schema.requiresReset) {
+      controller.onChange(() => renderer3D?.updateMaterials());
+    } else if (schema.type === "boolean") {
+      controller.onChange(() => resetSimulation()); // Immediate reset for binary toggles
+    } else {
+      controller.onChange(() => debouncedReset());
+    }
+  }
 
   // Add a button to reset the simulation manually
   gui.add({ restart: () => setup() }, "restart").name("Restart Simulation");
 
+  // Snapshot persistence
+  const snapshotFolder = gui.addFolder("Snapshots");
+  snapshotFolder
+    .add({ save: () => saveSnapshot(false) }, "save")
+    .name("Save Snapshot (JSON)");
+  snapshotFolder
+    .add({ save: () => saveSnapshot(true) }, "save")
+    .name("Save Snapshot (Binary)");
+  snapshotFolder.add({ load: loadSnapshot }, "load").name("Load Snapshot");
+  snapshotFolder.add({ save: saveConfig }, "save").name("Save Config (JSON)");
+  snapshotFolder.add({ load: loadConfig }, "load").name("Load Config");
+  snapshotFolder
+    .add({ save: () => saveGraph("graphml") }, "save")
+    .name("Export Network (GraphML)");
+  snapshotFolder
+    .add({ save: () => saveGraph("gexf") }, "save")
+    .name("Export Network (GEXF)");
+
+  // Topology statistics walk the whole graph, so they are computed on demand
+  const statsFolder = gui.addFolder("Network Stats");
+  const stats: Record<string, string> = {};
+  const refreshStats = () => {
+    const inocula = growth.getSimulation().getInocula().map((inoculum) => inoculum.position);
+    for (const [key, value] of Object.entries(computeNetworkStats(network, inocula))) {
+      if (typeof value === "number") {
+        stats[key] = Number.isInteger(value) ? String(value) : value.toFixed(3);
+      }
+    }
+    statsFolder.updateDisplay();
+  };
+  refreshStats();
+  statsFolder.add({ refresh: refreshStats }, "refresh").name("Refresh");
+  for (const key of Object.keys(stats)) {
+    statsFolder.add(stats, key);
+  }
+
   gui.close();
 };
 
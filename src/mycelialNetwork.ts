@@ -1,6 +1,14 @@
 // src/mycelialNetwork.ts
 
-import { config } from "./constants.js"; // Import the config object
+import { Config, config as globalConfig } from "./constants.js";
+import { SpatialIndex } from "./spatialIndex.js";
+import {
+  TransportEdge,
+  computeEdgeFluxes,
+  poiseuilleConductance,
+  solvePressures,
+} from "./transport.js";
+import type { GrowthType } from "./simulation.js";
 
 /**
  * mycelialNetwork.ts
@@ -8,19 +16,76 @@ import { config } from "./constants.js"; // Import the config object
  * Manages the mycelial network graph, handling resource flows.
  */
 
-interface Node {
+export interface NetworkNode {
   id: number;
   x: number;
   y: number;
   z: number; // Added z-coordinate for 3D
   resource: number;
   connections: number[]; // IDs of connected nodes
+  depth?: number; // Branch depth of the tip that created the node
+  growthType?: GrowthType; // Growth type of the tip that created the node
+  colonyId?: number; // Colony of the tip that created the node
+  pressure?: number; // From the last hydraulic solve, which warm-starts the next
 }
 
+/**
+ * Metadata describing the hyphal tip that created a node.
+ */
+export interface NodeMetadata {
+  depth: number;
+  growthType: GrowthType;
+  colonyId: number;
+}
+
+/**
+ * An undirected edge of the network graph, with source < target.
+ */
+export interface NetworkEdge {
+  id: number;
+  source: number;
+  target: number;
+  length: number; // Euclidean distance between the endpoints
+  createdAt: number; // Flow step (flowResources() call) the edge was created in
+  radius: number; // Hyphal radius, adapted to the flux the edge carries
+  flux: number; // Resource moved along the edge in the last flow step
+  flow: number; // Cumulative resource transported along the edge
+}
+
+/**
+ * Serializable state of the network, used by snapshots.
+ */
+export interface NetworkState {
+  nextId: number;
+  nodes: NetworkNode[];
+  activeNodes: number[]; // In iteration order, which affects flow rounding
+  nextEdgeId: number;
+  edges: NetworkEdge[];
+  flowStep: number;
+}
+
+// Cell size of the spatial index over nodes and segments
+const NODE_INDEX_CELL_SIZE = 2;
+
+// Radius change, relative to HYPHAL_RADIUS, that marks an edge as resized
+const RESIZE_TOLERANCE = 1e-3;
+
 export class MycelialNetwork {
-  private nodes: Map<number, Node> = new Map();
+  private nodes: Map<number, NetworkNode> = new Map();
   private nextId: number = 0;
   private activeNodes: Set<number> = new Set(); // Track nodes with significant resources
+  private edges: Map<number, NetworkEdge> = new Map();
+  private edgeIds: Map<string, number> = new Map(); // Keyed by getEdgeKey()
+  private nextEdgeId: number = 0;
+  private flowStep: number = 0; // Number of flowResources() calls
+  private spatialIndex = new SpatialIndex(NODE_INDEX_CELL_SIZE); // Nodes and segments
+  private resizedEdges: Set<number> = new Set(); // Since the last takeResizedEdges()
+
+  /**
+   * Creates an empty network.
+   * @param config - Parameters of this network (default: the global config).
+   */
+  constructor(private config: Config = globalConfig) {}
 
   /**
    * Creates a new node in the network.
@@ -28,9 +93,16 @@ export class MycelialNetwork {
    * @param y - Y-coordinate of the node.
    * @param z - Z-coordinate of the node (default: 0).
    * @param resource - Initial resource of the node.
+   * @param metadata - Optional depth, growth type and colony of the creating tip.
    * @returns The unique ID of the created node.
    */
-  public createNode(x: number, y: number, z: number = 0, resource: number = 0): number {
+  public createNode(
+    x: number,
+    y: number,
+    z: number = 0,
+    resource: number = 0,
+    metadata?: NodeMetadata,
+  ): number {
     // Support for backward compatibility with 2D calls
     if (arguments.length === 3) {
       resource = z;
@@ -45,31 +117,244 @@ export class MycelialNetwork {
       z,
       resource,
       connections: [],
+      ...metadata,
     });
     
     // Track nodes with resources
     if (resource > 0) {
       this.activeNodes.add(id);
     }
-    
+
+    this.spatialIndex.insertPoint(id, x, y, z);
+
     return id;
   }
 
   /**
-   * Connects two nodes in the network.
+   * Connects two nodes in the network. Nodes that are already connected
+   * keep their existing edge, and a node is never connected to itself.
    * @param fromId - ID of the first node.
    * @param toId - ID of the second node.
+   * @returns The ID of the edge between the nodes, or undefined if either
+   * node does not exist or both are the same node.
    */
-  public connectNodes(fromId: number, toId: number): void {
+  public connectNodes(fromId: number, toId: number): number | undefined {
     const fromNode = this.nodes.get(fromId);
     const toNode = this.nodes.get(toId);
-    if (fromNode && toNode) {
-      fromNode.connections.push(toId);
-      toNode.connections.push(fromId);
+    if (!fromNode || !toNode || fromId === toId) {
+      return undefined;
+    }
+
+    const edgeKey = this.getEdgeKey(fromId, toId);
+    const existing = this.edgeIds.get(edgeKey);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const id = this.nextEdgeId++;
+    this.edges.set(id, {
+      id,
+      source: Math.min(fromId, toId),
+      target: Math.max(fromId, toId),
+      length: Math.hypot(
+        toNode.x - fromNode.x,
+        toNode.y - fromNode.y,
+        toNode.z - fromNode.z,
+      ),
+      createdAt: this.flowStep,
+      radius: this.config.HYPHAL_RADIUS,
+      flux: 0,
+      flow: 0,
+    });
+    this.edgeIds.set(edgeKey, id);
+
+    fromNode.connections.push(toId);
+    toNode.connections.push(fromId);
+    this.spatialIndex.insertSegment(fromId, toId);
+    this.connectionCache.delete(fromId);
+    this.connectionCache.delete(toId);
+    return id;
+  }
+
+  /**
+   * Removes an edge, disconnecting its endpoints.
+   * @param id - ID of the edge.
+   * @returns Whether the edge existed.
+   */
+  public removeEdge(id: number): boolean {
+    const edge = this.edges.get(id);
+    if (!edge) {
+      return false;
+    }
+
+    for (const [nodeId, otherId] of [
+      [edge.source, edge.target],
+      [edge.target, edge.source],
+    ]) {
+      const node = this.nodes.get(nodeId)!;
+      node.connections = node.connections.filter((connId) => connId !== otherId);
+      this.connectionCache.delete(nodeId);
     }
+    this.spatialIndex.removeSegment(edge.source, edge.target);
+    this.edgeIds.delete(this.getEdgeKey(edge.source, edge.target));
+    this.edges.delete(id);
+    this.resizedEdges.delete(id);
+    return true;
   }
 
-  // Cache for connection calculations
+  /**
+   * Removes a node together with every edge attached to it.
+   * @param id - ID of the node.
+   * @returns Whether the node existed.
+   */
+  public removeNode(id: number): boolean {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return false;
+    }
+
+    for (const connId of [...node.connections]) {
+      this.removeEdge(this.edgeIds.get(this.getEdgeKey(id, connId))!);
+    }
+    this.spatialIndex.removePoint(id);
+    this.activeNodes.delete(id);
+    this.connectionCache.delete(id);
+    this.nodes.delete(id);
+    return true;
+  }
+
+  /**
+   * Gets a copy of a single edge.
+   * @param id - ID of the edge.
+   * @returns The edge, or undefined if it does not exist.
+   */
+  public getEdge(id: number): NetworkEdge | undefined {
+    const edge = this.edges.get(id);
+    return edge ? { ...edge } : undefined;
+  }
+
+  /**
+   * Gets a copy of the edge between two nodes.
+   * @param a - ID of one endpoint.
+   * @param b - ID of the other endpoint.
+   * @returns The edge, or undefined if the nodes are not connected.
+   */
+  public findEdge(a: number, b: number): NetworkEdge | undefined {
+    const id = this.edgeIds.get(this.getEdgeKey(a, b));
+    return id !== undefined ? this.getEdge(id) : undefined;
+  }
+
+  /**
+   * Gets copies of the edges attached to a node.
+   * @param nodeId - ID of the node.
+   * @returns Edges in the order the node was connected.
+   */
+  public getNodeEdges(nodeId: number): NetworkEdge[] {
+    return (this.nodes.get(nodeId)?.connections ?? []).map(
+      (connId) => this.findEdge(nodeId, connId)!,
+    );
+  }
+
+  /**
+   * Gets every node reachable from a node within a number of hops.
+   * @param nodeId - ID of the starting node.
+   * @param hops - Maximum number of edges to traverse.
+   * @returns IDs of the reachable nodes, including the starting node.
+   */
+  public getNodesWithinHops(nodeId: number, hops: number): Set<number> {
+    const reached: Set<number> = new Set([nodeId]);
+    let frontier = [nodeId];
+
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      const next: number[] = [];
+      for (const id of frontier) {
+        for (const connId of this.nodes.get(id)?.connections ?? []) {
+          if (!reached.has(connId)) {
+            reached.add(connId);
+            next.push(connId);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return reached;
+  }
+
+  /**
+   * Finds the node a hypha at the given position should fuse with: the
+   * closest node or segment within the radius. When a segment is closest,
+   * its nearer endpoint is returned.
+   * @param x - X-coordinate of the probe position.
+   * @param y - Y-coordinate of the probe position.
+   * @param z - Z-coordinate of the probe position.
+   * @param radius - Maximum fusion distance.
+   * @param excluded - Node IDs that must not be fused with (e.g. the hypha's own recent nodes).
+   * @param colonyId - Only fuse with nodes of this colony (default: any colony).
+   * @returns The ID of the node to fuse with, or undefined if none is in range.
+   */
+  public findFusionTarget(
+    x: number,
+    y: number,
+    z: number,
+    radius: number,
+    excluded: Set<number>,
+    colonyId?: number,
+  ): number | undefined {
+    const allowed = (id: number) =>
+      !excluded.has(id) &&
+      (colonyId === undefined || this.nodes.get(id)!.colonyId === colonyId);
+    const node = this.spatialIndex.nearest(x, y, z, radius, allowed);
+    const segment = this.spatialIndex.nearestSegment(
+      x,
+      y,
+      z,
+      node ? node.distance : radius,
+      (a, b) => allowed(a) && allowed(b),
+    );
+
+    if (segment) {
+      return segment.t < 0.5 ? segment.a : segment.b;
+    }
+    return node?.id;
+  }
+
+  /**
+   * Finds every node within a radius of a position.
+   * @param x - X-coordinate of the query position.
+   * @param y - Y-coordinate of the query position.
+   * @param z - Z-coordinate of the query position.
+   * @param radius - Maximum distance.
+   * @returns IDs of the nodes in range.
+   */
+  public findNodesWithinRadius(
+    x: number,
+    y: number,
+    z: number,
+    radius: number,
+  ): number[] {
+    return this.spatialIndex.queryRadius(x, y, z, radius);
+  }
+
+  /**
+   * Finds the node nearest to a position, e.g. for picking.
+   * @param x - X-coordinate of the query position.
+   * @param y - Y-coordinate of the query position.
+   * @param z - Z-coordinate of the query position.
+   * @param maxDistance - Maximum search distance (default: unlimited).
+   * @returns The ID of the nearest node, or undefined if none is in range.
+   */
+  public findNearestNode(
+    x: number,
+    y: number,
+    z: number,
+    maxDistance: number = Infinity,
+  ): number | undefined {
+    return this.spatialIndex.nearest(x, y, z, maxDistance)?.id;
+  }
+
+  // Cache for connection calculations; an entry is dropped whenever an
+  // edge of its node is added or removed
   private connectionCache: Map<number, number[]> = new Map();
   
   /**
@@ -80,23 +365,37 @@ export class MycelialNetwork {
   private getCachedConnections(nodeId: number): number[] {
     if (!this.connectionCache.has(nodeId)) {
       const node = this.nodes.get(nodeId);
-      if (node) {
-        // Filter out invalid connections
-        const validConnections = node.connections.filter(id => this.nodes.has(id));
-        this.connectionCache.set(nodeId, validConnections);
-      } else {
-        this.connectionCache.set(nodeId, []);
-      }
+      this.connectionCache.set(nodeId, node ? [...node.connections] : []);
     }
     return this.connectionCache.get(nodeId)!;
   }
 
   /**
-   * Simulates resource flow between connected nodes.
+   * Simulates resource flow between connected nodes using the configured
+   * TRANSPORT_MODEL.
+   * @param sinkIds - Nodes of the growing tips, which draw resource in
+   * either model.
+   */
+  public flowResources(sinkIds: Iterable<number> = []): void {
+    this.flowStep++;
+    for (const edge of this.edges.values()) {
+      edge.flux = 0;
+    }
+    if (this.config.TRANSPORT_MODEL === "hydraulic") {
+      this.flowHydraulic(new Set(sinkIds));
+    } else {
+      this.flowDiffusive(new Set(sinkIds));
+    }
+  }
+
+  /**
+   * Diffusive transport.
    * Resources flow from nodes with higher resources to those with lower resources.
+   * Sinks only receive, so growing tips are fed rather than drained.
    * Highly optimized to only process nodes with significant resources.
+   * @param sinks - IDs of the nodes at growing tips.
    */
-  public flowResources(): void {
+  private flowDiffusive(sinks: Set<number>): void {
     // Use a sparse update approach for better performance
     const resourceChanges: Map<number, number> = new Map();
     const newActiveNodes: Set<number> = new Set();
@@ -112,18 +411,28 @@ export class MycelialNetwork {
         const node = this.nodes.get(id);
         if (!node) continue;
         
-        // Skip nodes with minimal resources (increased threshold)
-        if (node.resource < 2) continue;
+        // Get cached connections
+        const connections = this.getCachedConnections(id);
+        const feedsSink = connections.some((connId) => sinks.has(connId));
+
+        // Skip nodes with minimal resources (increased threshold), unless
+        // they feed a growing tip
+        if (node.resource < 2 && !feedsSink) {
+          continue;
+        }
         
         // Add this node to the new active set if it has resources
         if (node.resource > 0) {
           newActiveNodes.add(id);
         }
+
+        // Sinks keep what reaches them
+        if (sinks.has(id)) {
+          continue;
+        }
         
-        // Get cached connections
-        const connections = this.getCachedConnections(id);
-        
-        // Calculate total flow for this node
+        // Calculate the flow to each neighbour
+        const outflows: [number, number][] = [];
         let totalOutflow = 0;
         
         for (const connId of connections) {
@@ -135,24 +444,47 @@ export class MycelialNetwork {
             newActiveNodes.add(connId);
           }
           
-          // Only flow if difference is significant (increased threshold)
+          // Only flow if difference is significant (increased threshold);
+          // any difference feeds a sink
           const resourceDiff = node.resource - connectedNode.resource;
-          if (resourceDiff > 10) {
-            // Calculate flow with diminishing returns for very large differences
+          if (
+            resourceDiff > 10 ||
+            (resourceDiff > 0 && sinks.has(connId))
+          ) {
+            // Calculate flow with diminishing returns for very large differences.
+            // Splitting the difference by the busier endpoint's degree keeps
+            // a node fed by many neighbours from overshooting all of them
+            const degree = Math.max(
+              connections.length,
+              this.getCachedConnections(connId).length
+            );
             const flow = Math.min(
-              resourceDiff * config.RESOURCE_FLOW_RATE,
+              resourceDiff * this.config.RESOURCE_FLOW_RATE,
+              resourceDiff / (1 + degree),
               node.resource * 0.3 // Cap at 30% of source node's resources
             );
             
+            outflows.push([connId, flow]);
             totalOutflow += flow;
-            
-            // Add to the target node's changes
-            resourceChanges.set(
-              connId,
-              (resourceChanges.get(connId) || 0) + flow
-            );
           }
         }
+
+        // A node with many poorer neighbours cannot give more than it holds
+        const scale = Math.min(1, node.resource / totalOutflow);
+        for (const [connId, flow] of outflows) {
+          // Record the transport for graph export and edge adaptation
+          const edgeId = this.edgeIds.get(this.getEdgeKey(id, connId))!;
+          const edge = this.edges.get(edgeId)!;
+          edge.flow += flow * scale;
+          edge.flux += flow * scale;
+          
+          // Add to the target node's changes
+          resourceChanges.set(
+            connId,
+            (resourceChanges.get(connId) || 0) + flow * scale
+          );
+        }
+        totalOutflow *= scale;
         
         // Apply total outflow to source node
         if (totalOutflow > 0) {
@@ -168,10 +500,9 @@ export class MycelialNetwork {
     for (const [id, change] of resourceChanges) {
       const node = this.nodes.get(id);
       if (node) {
-        node.resource += change;
-        
-        // Clamp resource to valid range
-        node.resource = Math.max(0, Math.min(1000, node.resource));
+        // Outflows never exceed a node's resource, so this only absorbs
+        // rounding error
+        node.resource = Math.max(0, node.resource + change);
         
         // Add to active nodes if it has resources
         if (node.resource > 0) {
@@ -182,13 +513,165 @@ export class MycelialNetwork {
     
     // Update active nodes set
     this.activeNodes = newActiveNodes;
-    
-    // Clear connection cache periodically to handle network changes
-    if (Math.random() < 0.01) { // 1% chance each frame
-      this.connectionCache.clear();
+  }
+
+  /**
+   * Hydraulic transport: sinks are held at zero pressure and every other
+   * node holding at least TRANSPORT_SOURCE_THRESHOLD at a pressure equal to
+   * its resource. The pressures of the remaining nodes follow from
+   * Kirchhoff's law, and each edge carries its Poiseuille flux scaled by
+   * RESOURCE_FLOW_RATE. If a source would lose more than it holds, all
+   * fluxes are scaled down together so resource stays conserved. Each solve
+   * starts from the previous pressures; one that does not converge leaves
+   * its progress for the next and resource flows diffusively meanwhile.
+   * @param sinks - Nodes of the growing tips.
+   */
+  private flowHydraulic(sinks: Set<number>): void {
+    const fixed: Map<number, number> = new Map();
+    for (const node of this.nodes.values()) {
+      if (sinks.has(node.id)) {
+        fixed.set(node.id, 0);
+      } else if (node.resource >= this.config.TRANSPORT_SOURCE_THRESHOLD) {
+        fixed.set(node.id, node.resource);
+      }
+    }
+
+    const edges = Array.from(this.edges.values());
+    const transportEdges: TransportEdge[] = edges.map((edge) => ({
+      source: edge.source,
+      target: edge.target,
+      conductance: poiseuilleConductance(edge.radius, edge.length),
+    }));
+    const initial: Map<number, number> = new Map();
+    for (const node of this.nodes.values()) {
+      if (node.pressure !== undefined) {
+        initial.set(node.id, node.pressure);
+      }
+    }
+    const { pressures, converged } = solvePressures(
+      transportEdges,
+      fixed,
+      initial,
+    );
+    for (const node of this.nodes.values()) {
+      const pressure = pressures.get(node.id);
+      if (pressure !== undefined) {
+        node.pressure = pressure;
+      } else {
+        delete node.pressure;
+      }
+    }
+    if (!converged) {
+      this.flowDiffusive(sinks);
+      return;
+    }
+
+    const fluxes = computeEdgeFluxes(transportEdges, pressures).map(
+      (flux) => flux * this.config.RESOURCE_FLOW_RATE,
+    );
+
+    const netChange: Map<number, number> = new Map();
+    edges.forEach((edge, i) => {
+      netChange.set(edge.source, (netChange.get(edge.source) || 0) - fluxes[i]);
+      netChange.set(edge.target, (netChange.get(edge.target) || 0) + fluxes[i]);
+    });
+
+    // Free nodes pass flux through, so only fixed nodes can be overdrawn
+    let scale = 1;
+    for (const [id, change] of netChange) {
+      const resource = this.nodes.get(id)!.resource;
+      if (fixed.has(id) && -change > resource) {
+        scale = Math.min(scale, resource / -change);
+      }
+    }
+
+    edges.forEach((edge, i) => {
+      edge.flux = Math.abs(fluxes[i]) * scale;
+      edge.flow += edge.flux;
+    });
+
+    this.activeNodes = new Set();
+    for (const node of this.nodes.values()) {
+      // Clamping only absorbs the solver's residual at free nodes
+      node.resource = Math.max(
+        0,
+        node.resource + (netChange.get(node.id) || 0) * scale,
+      );
+      if (node.resource > 0) {
+        this.activeNodes.add(node.id);
+      }
     }
   }
 
+  /**
+   * Adapts every edge's radius to the resource it carried in the last
+   * flowResources() call, Tero-style: radii relax toward
+   * CORD_MAX_RADIUS * q / (q + CORD_FLUX_SATURATION) at EDGE_ADAPTATION_RATE,
+   * so busy edges thicken into cords and idle ones thin out. Edges thinner
+   * than PRUNE_RADIUS are removed unless they lead to a growing tip, and
+   * nodes left without any edge are removed with their resource.
+   * @param sinkIds - Nodes of the growing tips, whose edges are never pruned.
+   * @returns The [source, target] node IDs of the pruned edges.
+   */
+  public adaptEdges(sinkIds: Iterable<number> = []): [number, number][] {
+    const rate = this.config.EDGE_ADAPTATION_RATE;
+    if (rate <= 0) {
+      return [];
+    }
+
+    const sinks = new Set(sinkIds);
+    const pruned: [number, number][] = [];
+    for (const edge of Array.from(this.edges.values())) {
+      const target =
+        (this.config.CORD_MAX_RADIUS * edge.flux) /
+        (edge.flux + this.config.CORD_FLUX_SATURATION);
+      const change = rate * (target - edge.radius);
+      edge.radius += change;
+      if (Math.abs(change) > RESIZE_TOLERANCE * this.config.HYPHAL_RADIUS) {
+        this.resizedEdges.add(edge.id);
+      }
+
+      if (
+        edge.radius < this.config.PRUNE_RADIUS &&
+        !sinks.has(edge.source) &&
+        !sinks.has(edge.target)
+      ) {
+        this.removeEdge(edge.id);
+        pruned.push([edge.source, edge.target]);
+        for (const nodeId of [edge.source, edge.target]) {
+          if (this.nodes.get(nodeId)!.connections.length === 0) {
+            this.removeNode(nodeId);
+          }
+        }
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Gets the edges whose radius changed noticeably since the last call,
+   * e.g. to redraw only those, and starts tracking afresh.
+   * @returns Copies of the resized edges that still exist.
+   */
+  public takeResizedEdges(): NetworkEdge[] {
+    const resized = Array.from(this.resizedEdges, (id) => ({
+      ...this.edges.get(id)!,
+    }));
+    this.resizedEdges.clear();
+    return resized;
+  }
+
+  /**
+   * Gets the radius of the edge between two nodes.
+   * @param a - ID of one endpoint.
+   * @param b - ID of the other endpoint.
+   * @returns The edge radius, or 0 if the nodes are not connected.
+   */
+  public getEdgeRadius(a: number, b: number): number {
+    const id = this.edgeIds.get(this.getEdgeKey(a, b));
+    return id !== undefined ? this.edges.get(id)!.radius : 0;
+  }
+
   /**
    * Retrieves the resource level of a specific node.
    * @param id - ID of the node.
@@ -199,6 +682,159 @@ export class MycelialNetwork {
     return node ? node.resource : 0;
   }
 
+  /**
+   * Adds resource to a node, e.g. nutrients absorbed by the tip at it.
+   * @param id - ID of the node.
+   * @param amount - Non-negative amount to add.
+   */
+  public addResource(id: number, amount: number): void {
+    const node = this.nodes.get(id);
+    if (node && amount > 0) {
+      node.resource += amount;
+      this.activeNodes.add(id);
+    }
+  }
+
+  /**
+   * Takes up to the given amount of resource out of a node.
+   * @param id - ID of the node.
+   * @param amount - Amount requested.
+   * @returns The amount actually withdrawn, at most the node's resource.
+   */
+  public withdrawResource(id: number, amount: number): number {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return 0;
+    }
+
+    const withdrawn = Math.max(0, Math.min(amount, node.resource));
+    node.resource -= withdrawn;
+    return withdrawn;
+  }
+
+  /**
+   * Charges every node the cost of keeping its hypha alive for one step.
+   * Nodes that cannot cover it pay what they have.
+   * @param costPerNode - Resource each node should pay.
+   * @returns The total resource paid.
+   */
+  public chargeMaintenance(costPerNode: number): number {
+    if (costPerNode <= 0) {
+      return 0;
+    }
+
+    let paid = 0;
+    for (const node of this.nodes.values()) {
+      const cost = Math.min(costPerNode, node.resource);
+      if (cost > 0) {
+        node.resource -= cost;
+        paid += cost;
+      }
+    }
+    return paid;
+  }
+
+  /**
+   * Sums the resource held across the whole network.
+   * @returns The total resource of all nodes.
+   */
+  public getTotalResource(): number {
+    let total = 0;
+    for (const node of this.nodes.values()) {
+      total += node.resource;
+    }
+    return total;
+  }
+
+  /**
+   * Gets a copy of a single node.
+   * @param id - ID of the node.
+   * @returns The node, or undefined if it does not exist.
+   */
+  public getNode(id: number): NetworkNode | undefined {
+    const node = this.nodes.get(id);
+    return node ? { ...node, connections: [...node.connections] } : undefined;
+  }
+
+  /**
+   * Gets a copy of every node in the network.
+   * @returns Nodes in creation order.
+   */
+  public getNodes(): NetworkNode[] {
+    return Array.from(this.nodes.values(), (node) => ({
+      ...node,
+      connections: [...node.connections],
+    }));
+  }
+
+  /**
+   * Gets a copy of every edge in the network.
+   * @returns Edges in creation order.
+   */
+  public getEdges(): NetworkEdge[] {
+    return Array.from(this.edges.values(), (edge) => ({ ...edge }));
+  }
+
+  /**
+   * Builds an order-independent key for the edge between two nodes.
+   */
+  private getEdgeKey(a: number, b: number): string {
+    return a < b ? `${a}-${b}` : `${b}-${a}`;
+  }
+
+  /**
+   * Captures the complete network state.
+   * @returns A deep copy of nodes, edges, ID counters and active set.
+   */
+  public exportState(): NetworkState {
+    return {
+      nextId: this.nextId,
+      nodes: Array.from(this.nodes.values(), (node) => ({
+        ...node,
+        connections: [...node.connections],
+      })),
+      activeNodes: Array.from(this.activeNodes),
+      nextEdgeId: this.nextEdgeId,
+      edges: this.getEdges(),
+      flowStep: this.flowStep,
+    };
+  }
+
+  /**
+   * Replaces the network with a previously exported state.
+   * @param state - State obtained from exportState().
+   */
+  public importState(state: NetworkState): void {
+    this.nodes = new Map(
+      state.nodes.map((node) => [
+        node.id,
+        { ...node, connections: [...node.connections] },
+      ]),
+    );
+    this.nextId = state.nextId;
+    this.activeNodes = new Set(state.activeNodes);
+    this.nextEdgeId = state.nextEdgeId;
+    this.edges = new Map(state.edges.map((edge) => [edge.id, { ...edge }]));
+    this.edgeIds = new Map(
+      state.edges.map((edge) => [
+        this.getEdgeKey(edge.source, edge.target),
+        edge.id,
+      ]),
+    );
+    this.flowStep = state.flowStep;
+    this.connectionCache.clear();
+    // Restored radii have not been drawn yet
+    this.resizedEdges = new Set(this.edges.keys());
+
+    this.spatialIndex.clear();
+    for (const node of this.nodes.values()) {
+      this.spatialIndex.insertPoint(node.id, node.x, node.y, node.z);
+    }
+    for (const edge of this.edges.values()) {
+      this.spatialIndex.insertSegment(edge.source, edge.target);
+    }
+  }
+
   /**
    * Resets the network by clearing all nodes and connections.
    */
@@ -207,5 +843,12 @@ export class MycelialNetwork {
     this.nextId = 0;
     this.activeNodes.clear();
     this.connectionCache.clear();
+    this.edges.clear();
+    this.edgeIds.clear();
+    this.nextEdgeId = 0;
+    this.flowStep = 0;
+    this.spatialIndex.clear();
+    this.resizedEdges.clear();
   }
 }
+
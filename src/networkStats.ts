@@ -0,0 +1,294 @@
+// src/networkStats.ts
+
+import { MycelialNetwork, NetworkNode } from "./mycelialNetwork.js";
+import { Point3D } from "./simulation.js";
+
+/**
+ * networkStats.ts
+ *
+ * Computes topology metrics of the mycelial network graph on demand so
+ * runs can be compared numerically.
+ */
+
+export interface NetworkStats {
+  nodeCount: number;
+  edgeCount: number;
+  degreeDistribution: number[]; // Index = degree, value = number of nodes
+  meanDegree: number;
+  componentCount: number;
+  cycleCount: number; // Independent loops (cyclomatic number E - V + C)
+  totalLength: number; // Summed Euclidean length of all edges
+  branchingNodeRatio: number; // Fraction of nodes with degree >= 3
+  meanPathLength: number; // Mean shortest-path distance from the nearest inoculum
+  reachableNodeCount: number; // Nodes connected to an inoculum
+  boxCountingDimension: number;
+}
+
+// Number of box sizes (halving each time) used for the fractal dimension fit
+const BOX_COUNTING_LEVELS = 6;
+
+/**
+ * Computes topology statistics for the network.
+ * @param network - The network to analyze.
+ * @param inocula - Inoculation point, or one per colony; the nodes closest
+ *                  to each are the path sources.
+ * @returns The computed statistics.
+ */
+export function computeNetworkStats(
+  network: MycelialNetwork,
+  inocula: Point3D | readonly Point3D[] = { x: 0, y: 0, z: 0 },
+): NetworkStats {
+  const nodes = network.getNodes();
+  const edges = network.getEdges();
+
+  // Build a deduplicated, weighted adjacency list
+  const adjacency: Map<number, { id: number; length: number }[]> = new Map();
+  for (const node of nodes) {
+    adjacency.set(node.id, []);
+  }
+  let totalLength = 0;
+  for (const edge of edges) {
+    adjacency.get(edge.source)!.push({ id: edge.target, length: edge.length });
+    adjacency.get(edge.target)!.push({ id: edge.source, length: edge.length });
+    totalLength += edge.length;
+  }
+
+  const degreeDistribution: number[] = [];
+  let branchingNodes = 0;
+  for (const neighbors of adjacency.values()) {
+    const degree = neighbors.length;
+    while (degreeDistribution.length <= degree) {
+      degreeDistribution.push(0);
+    }
+    degreeDistribution[degree]++;
+    if (degree >= 3) {
+      branchingNodes++;
+    }
+  }
+
+  const componentCount = countComponents(adjacency);
+  const { meanPathLength, reachableNodeCount } = measurePaths(
+    nodes,
+    adjacency,
+    Array.isArray(inocula) ? inocula : [inocula],
+  );
+
+  return {
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+    degreeDistribution,
+    meanDegree: nodes.length > 0 ? (2 * edges.length) / nodes.length : 0,
+    componentCount,
+    cycleCount: edges.length - nodes.length + componentCount,
+    totalLength,
+    branchingNodeRatio: nodes.length > 0 ? branchingNodes / nodes.length : 0,
+    meanPathLength,
+    reachableNodeCount,
+    boxCountingDimension: boxCountingDimension(nodes),
+  };
+}
+
+/**
+ * Counts connected components with an iterative depth-first search.
+ */
+function countComponents(
+  adjacency: Map<number, { id: number; length: number }[]>,
+): number {
+  const visited: Set<number> = new Set();
+  let components = 0;
+
+  for (const start of adjacency.keys()) {
+    if (visited.has(start)) {
+      continue;
+    }
+    components++;
+    visited.add(start);
+    const stack = [start];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      for (const neighbor of adjacency.get(id)!) {
+        if (!visited.has(neighbor.id)) {
+          visited.add(neighbor.id);
+          stack.push(neighbor.id);
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Runs a multi-source Dijkstra from the nodes closest to each inoculum and
+ * averages the shortest-path distance over every reachable node, so each
+ * node is measured from the nearest inoculum it connects to.
+ */
+function measurePaths(
+  nodes: NetworkNode[],
+  adjacency: Map<number, { id: number; length: number }[]>,
+  inocula: readonly Point3D[],
+): { meanPathLength: number; reachableNodeCount: number } {
+  if (nodes.length === 0) {
+    return { meanPathLength: 0, reachableNodeCount: 0 };
+  }
+
+  const distances: Map<number, number> = new Map();
+  const heap = new MinHeap();
+  for (const inoculum of inocula) {
+    // All nodes tied for closest to the inoculum are sources (e.g. every
+    // main hypha starts at the same point as a separate node)
+    const distanceTo = (node: NetworkNode) =>
+      Math.hypot(node.x - inoculum.x, node.y - inoculum.y, node.z - inoculum.z);
+    let closest = Infinity;
+    for (const node of nodes) {
+      closest = Math.min(closest, distanceTo(node));
+    }
+    for (const node of nodes) {
+      if (distanceTo(node) - closest < 1e-9) {
+        distances.set(node.id, 0);
+        heap.push(node.id, 0);
+      }
+    }
+  }
+
+  while (heap.size > 0) {
+    const { id, priority } = heap.pop();
+    if (priority > distances.get(id)!) {
+      continue; // Stale entry
+    }
+    for (const neighbor of adjacency.get(id)!) {
+      const candidate = priority + neighbor.length;
+      const known = distances.get(neighbor.id);
+      if (known === undefined || candidate < known) {
+        distances.set(neighbor.id, candidate);
+        heap.push(neighbor.id, candidate);
+      }
+    }
+  }
+
+  let total = 0;
+  for (const distance of distances.values()) {
+    total += distance;
+  }
+
+  return {
+    meanPathLength: total / distances.size,
+    reachableNodeCount: distances.size,
+  };
+}
+
+/**
+ * Estimates the box-counting (Minkowski) dimension of the node cloud by
+ * fitting log(occupied boxes) against log(1 / box size).
+ */
+function boxCountingDimension(nodes: NetworkNode[]): number {
+  if (nodes.length < 2) {
+    return 0;
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let minZ = Infinity;
+  let extent = 0;
+  for (const node of nodes) {
+    minX = Math.min(minX, node.x);
+    minY = Math.min(minY, node.y);
+    minZ = Math.min(minZ, node.z);
+  }
+  for (const node of nodes) {
+    extent = Math.max(extent, node.x - minX, node.y - minY, node.z - minZ);
+  }
+  if (extent === 0) {
+    return 0;
+  }
+
+  const logInverseSizes: number[] = [];
+  const logCounts: number[] = [];
+  for (let level = 1; level <= BOX_COUNTING_LEVELS; level++) {
+    const boxesPerSide = 2 ** level;
+    const boxSize = extent / boxesPerSide;
+    // Points on the far edge belong to the last box, not a new one
+    const boxIndex = (offset: number) =>
+      Math.min(Math.floor(offset / boxSize), boxesPerSide - 1);
+
+    const boxes: Set<string> = new Set();
+    for (const node of nodes) {
+      boxes.add(
+        `${boxIndex(node.x - minX)},${boxIndex(node.y - minY)},${boxIndex(node.z - minZ)}`,
+      );
+    }
+    logInverseSizes.push(Math.log(1 / boxSize));
+    logCounts.push(Math.log(boxes.size));
+  }
+
+  // Least-squares slope
+  const n = logCounts.length;
+  const meanX = logInverseSizes.reduce((sum, v) => sum + v, 0) / n;
+  const meanY = logCounts.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (logInverseSizes[i] - meanX) * (logCounts[i] - meanY);
+    variance += (logInverseSizes[i] - meanX) ** 2;
+  }
+
+  return covariance / variance;
+}
+
+/**
+ * Minimal binary min-heap of (id, priority) pairs for Dijkstra.
+ */
+class MinHeap {
+  private items: { id: number; priority: number }[] = [];
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public push(id: number, priority: number): void {
+    const items = this.items;
+    items.push({ id, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) {
+        break;
+      }
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  public pop(): { id: number; priority: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < items.length &&
+          items[left].priority < items[smallest].priority
+        ) {
+          smallest = left;
+        }
+        if (
+          right < items.length &&
+          items[right].priority < items[smallest].priority
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
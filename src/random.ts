@@ -0,0 +1,72 @@
+// src/random.ts
+
+/**
+ * random.ts
+ *
+ * Seedable pseudo-random number generator shared by every stochastic
+ * part of the simulation, so a seed plus a config reproduces a colony.
+ */
+
+export class Random {
+  private state: number;
+
+  /**
+   * Creates a new generator.
+   * @param seed - 32-bit integer seed (default: a random seed).
+   */
+  constructor(seed: number = Random.randomSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Produces a seed from the platform's non-deterministic source.
+   * @returns A 32-bit unsigned integer seed.
+   */
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Restarts the sequence from the given seed.
+   * @param seed - 32-bit integer seed.
+   */
+  public reseed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Returns the next value in the sequence (mulberry32).
+   * @returns A float in the range [0, 1), like Math.random().
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns a random integer in the range [0, max).
+   * @param max - Exclusive upper bound.
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Gets the internal generator state, e.g. for snapshots.
+   * @returns The 32-bit state word.
+   */
+  public getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restores a state previously obtained from getState().
+   * @param state - The 32-bit state word.
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
@@ -2,7 +2,20 @@
 
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { config } from './constants.js';
+import { Line2 } from 'three/examples/jsm/lines/Line2.js';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry.js';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial.js';
+import { Config, config as globalConfig } from './constants.js';
+import { WorldFrame } from './worldFrame.js';
+
+// What a hyphal segment's material is derived from, kept so the material
+// can be restyled when colour or width parameters change
+interface SegmentStyle {
+  type: 'main' | 'secondary';
+  depth: number;
+  nutrientIntensity: number;
+  widthScale: number; // Edge radius relative to HYPHAL_RADIUS
+}
 
 /**
  * Renderer3D class handles the 3D rendering of the mycelial network
@@ -15,14 +28,18 @@ export class Renderer3D {
   private controls: OrbitControls;
   private container: HTMLElement;
   
-  // Store references to objects for updating
-  private hyphaeSegments: Map<string, THREE.Line> = new Map();
+  // Store references to objects for updating. Hyphae are drawn as Line2
+  // because WebGL ignores the width of plain lines, so cords would not show
+  private hyphaeSegments: Map<string, Line2> = new Map();
   private nodeObjects: Map<number, THREE.Mesh> = new Map();
   private networkConnections: Map<string, THREE.Line> = new Map();
   
   // Material for hyphal segments
-  private mainHyphaeMaterial: THREE.LineBasicMaterial;
-  private secondaryHyphaeMaterial: THREE.LineBasicMaterial;
+  private mainHyphaeMaterial: LineMaterial;
+  private secondaryHyphaeMaterial: LineMaterial;
+  
+  // Viewport size in pixels, which LineMaterial needs for its line widths
+  private resolution: THREE.Vector2;
   
   // Environment visualization
   private nutrientGrid: THREE.Points | null = null;
@@ -32,8 +49,14 @@ export class Renderer3D {
    * @param container HTML element to contain the renderer
    * @param width Initial width
    * @param height Initial height
+   * @param config Colors, line widths and camera settings to render with
    */
-  constructor(container: HTMLElement, width: number, height: number) {
+  constructor(
+    container: HTMLElement,
+    width: number,
+    height: number,
+    private config: Config = globalConfig,
+  ) {
     this.container = container;
     
     // Create scene
@@ -42,21 +65,22 @@ export class Renderer3D {
     
     // Create camera
     this.camera = new THREE.PerspectiveCamera(
-      config.CAMERA_FOV, 
+      this.config.CAMERA_FOV, 
       width / height, 
       0.1, 
       1000
     );
     // Position camera at an angle to better see the 3D growth from the origin
     this.camera.position.set(
-      config.CAMERA_DISTANCE * 0.7, 
-      config.CAMERA_DISTANCE * 0.5, 
-      config.CAMERA_DISTANCE * 0.7
+      this.config.CAMERA_DISTANCE * 0.7, 
+      this.config.CAMERA_DISTANCE * 0.5, 
+      this.config.CAMERA_DISTANCE * 0.7
     );
     
     // Create renderer
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
     this.renderer.setSize(width, height);
+    this.resolution = new THREE.Vector2(width, height);
     this.renderer.setPixelRatio(window.devicePixelRatio);
     container.appendChild(this.renderer.domElement);
     
@@ -66,19 +90,11 @@ export class Renderer3D {
     this.controls.dampingFactor = 0.25;
     
     // Create materials for hyphal segments
-    this.mainHyphaeMaterial = new THREE.LineBasicMaterial({
-      color: new THREE.Color(`hsl(${config.BASE_HUE}, 0%, ${config.BASE_LIGHTNESS}%)`),
-      linewidth: config.MAIN_LINE_WIDTH,
-      opacity: config.MAIN_ALPHA,
-      transparent: true,
-    });
+    this.mainHyphaeMaterial = this.createSegmentMaterial();
+    this.applySegmentStyle(this.mainHyphaeMaterial, { type: 'main', depth: 0, nutrientIntensity: 0, widthScale: 1 });
     
-    this.secondaryHyphaeMaterial = new THREE.LineBasicMaterial({
-      color: new THREE.Color(`hsl(${config.BASE_HUE}, 0%, ${config.BASE_LIGHTNESS + config.LIGHTNESS_STEP * 2}%)`),
-      linewidth: config.SECONDARY_LINE_WIDTH,
-      opacity: config.SECONDARY_ALPHA,
-      transparent: true,
-    });
+    this.secondaryHyphaeMaterial = this.createSegmentMaterial();
+    this.applySegmentStyle(this.secondaryHyphaeMaterial, { type: 'secondary', depth: 2, nutrientIntensity: 0, widthScale: 1 });
     
     // Add ambient light
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
@@ -116,12 +132,16 @@ export class Renderer3D {
    * Handle window resize events
    */
   private onWindowResize(): void {
-    const width = this.container.clientWidth;
-    const height = this.container.clientHeight;
-    
-    this.camera.aspect = width / height;
-    this.camera.updateProjectionMatrix();
-    this.renderer.setSize(width, height);
+    this.resize(this.container.clientWidth, this.container.clientHeight);
+  }
+  
+  /**
+   * Creates a hyphal segment material drawn at the current resolution
+   */
+  private createSegmentMaterial(): LineMaterial {
+    const material = new LineMaterial({ transparent: true });
+    material.resolution.copy(this.resolution);
+    return material;
   }
   
   /**
@@ -132,6 +152,7 @@ export class Renderer3D {
    * @param type Growth type (main or secondary)
    * @param depth Branch depth
    * @param nutrientIntensity Nutrient intensity for coloring
+   * @param widthScale Line width multiplier, e.g. from the edge radius
    */
   public addHyphalSegment(
     id: string,
@@ -139,49 +160,109 @@ export class Renderer3D {
     endPoint: { x: number; y: number; z: number },
     type: 'main' | 'secondary',
     depth: number,
-    nutrientIntensity: number = 0
+    nutrientIntensity: number = 0,
+    widthScale: number = 1
   ): void {
     // Create geometry for the line segment
-    const points = [
-      new THREE.Vector3(startPoint.x, startPoint.y, startPoint.z),
-      new THREE.Vector3(endPoint.x, endPoint.y, endPoint.z)
-    ];
-    
-    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+    const geometry = new LineGeometry().setPositions([
+      startPoint.x, startPoint.y, startPoint.z,
+      endPoint.x, endPoint.y, endPoint.z
+    ]);
     
     // Create material based on type and nutrient intensity
-    let material: THREE.LineBasicMaterial;
+    const style: SegmentStyle = { type, depth, nutrientIntensity, widthScale };
+    const material = this.createSegmentMaterial();
+    this.applySegmentStyle(material, style);
+    
+    // Create the line and add to scene
+    const line = new Line2(geometry, material);
+    line.userData = style;
+    this.scene.add(line);
+    
+    // Store reference for later updates
+    this.hyphaeSegments.set(id, line);
+  }
+  
+  /**
+   * Rescales the line width of a segment, e.g. as its edge thickens into a cord
+   * @param id Identifier the segment was added with
+   * @param widthScale Line width multiplier
+   */
+  public setSegmentWidthScale(id: string, widthScale: number): void {
+    const segment = this.hyphaeSegments.get(id);
+    if (!segment) {
+      return;
+    }
+    
+    const style = segment.userData as SegmentStyle;
+    if (style.widthScale !== widthScale) {
+      style.widthScale = widthScale;
+      this.applySegmentStyle(segment.material, style);
+    }
+  }
+  
+  /**
+   * Gets the drawn width of a segment
+   * @param id Identifier the segment was added with
+   * @returns Line width in pixels, or undefined if there is no such segment
+   */
+  public getSegmentWidth(id: string): number | undefined {
+    return this.hyphaeSegments.get(id)?.material.linewidth;
+  }
+  
+  /**
+   * Remove a hyphal segment, e.g. when its edge was pruned
+   * @param id Identifier the segment was added with
+   */
+  public removeHyphalSegment(id: string): void {
+    const segment = this.hyphaeSegments.get(id);
+    if (!segment) {
+      return;
+    }
+    
+    this.scene.remove(segment);
+    segment.geometry.dispose();
+    segment.material.dispose();
+    this.hyphaeSegments.delete(id);
+  }
+  
+  /**
+   * Re-applies the current colour, line width and opacity parameters to the
+   * segments already in the scene, so live config changes show up without
+   * regrowing the colony
+   */
+  public updateMaterials(): void {
+    this.applySegmentStyle(this.mainHyphaeMaterial, { type: 'main', depth: 0, nutrientIntensity: 0, widthScale: 1 });
+    this.applySegmentStyle(this.secondaryHyphaeMaterial, { type: 'secondary', depth: 2, nutrientIntensity: 0, widthScale: 1 });
     
-    if (type === 'main') {
+    for (const segment of this.hyphaeSegments.values()) {
+      this.applySegmentStyle(segment.material, segment.userData as SegmentStyle);
+    }
+  }
+  
+  /**
+   * Sets a segment material's colour, width and opacity from the config
+   * @param material Material to update
+   * @param style What the segment was drawn for
+   */
+  private applySegmentStyle(material: LineMaterial, style: SegmentStyle): void {
+    if (style.type === 'main') {
       // For main hyphae, use nutrient-influenced color
-      const hue = nutrientIntensity > 0.1 ? config.NUTRIENT_HUE : config.BASE_HUE;
-      const saturation = nutrientIntensity * 100;
-      const lightness = config.BASE_LIGHTNESS;
+      const hue = style.nutrientIntensity > 0.1 ? this.config.NUTRIENT_HUE : this.config.BASE_HUE;
+      const saturation = style.nutrientIntensity * 100;
+      const lightness = this.config.BASE_LIGHTNESS;
       
-      material = new THREE.LineBasicMaterial({
-        color: new THREE.Color(`hsl(${hue}, ${saturation}%, ${lightness}%)`),
-        linewidth: config.MAIN_LINE_WIDTH,
-        opacity: config.MAIN_ALPHA,
-        transparent: true,
-      });
+      material.color.set(`hsl(${hue}, ${saturation}%, ${lightness}%)`);
+      material.linewidth = this.config.MAIN_LINE_WIDTH * style.widthScale;
+      material.opacity = this.config.MAIN_ALPHA;
     } else {
       // For secondary hyphae, use depth-influenced lightness
-      const lightness = Math.min(100, config.BASE_LIGHTNESS + depth * config.LIGHTNESS_STEP);
+      const lightness = Math.min(100, this.config.BASE_LIGHTNESS + style.depth * this.config.LIGHTNESS_STEP);
       
-      material = new THREE.LineBasicMaterial({
-        color: new THREE.Color(`hsl(${config.BASE_HUE}, 0%, ${lightness}%)`),
-        linewidth: config.SECONDARY_LINE_WIDTH,
-        opacity: config.SECONDARY_ALPHA,
-        transparent: true,
-      });
+      material.color.set(`hsl(${this.config.BASE_HUE}, 0%, ${lightness}%)`);
+      material.linewidth = this.config.SECONDARY_LINE_WIDTH * style.widthScale;
+      material.opacity = this.config.SECONDARY_ALPHA;
     }
-    
-    // Create the line and add to scene
-    const line = new THREE.Line(geometry, material);
-    this.scene.add(line);
-    
-    // Store reference for later updates
-    this.hyphaeSegments.set(id, line);
   }
   
   /**
@@ -196,7 +277,7 @@ export class Renderer3D {
     resource: number
   ): void {
     // Scale node size based on resource
-    const size = 0.5 + (resource / config.INITIAL_RESOURCE_PER_TIP) * 1.5;
+    const size = 0.5 + (resource / this.config.INITIAL_RESOURCE_PER_TIP) * 1.5;
     
     // Create geometry and material
     const geometry = new THREE.SphereGeometry(size, 8, 8);
@@ -224,14 +305,14 @@ export class Renderer3D {
     const node = this.nodeObjects.get(id);
     if (node) {
       // Scale node size based on resource
-      const size = 0.5 + (resource / config.INITIAL_RESOURCE_PER_TIP) * 1.5;
+      const size = 0.5 + (resource / this.config.INITIAL_RESOURCE_PER_TIP) * 1.5;
       
       // Update geometry
       node.scale.set(size, size, size);
       
       // Update color based on resource level
       const material = node.material as THREE.MeshBasicMaterial;
-      const resourceRatio = resource / config.INITIAL_RESOURCE_PER_TIP;
+      const resourceRatio = resource / this.config.INITIAL_RESOURCE_PER_TIP;
       
       // Transition from white to green as resource increases
       const color = new THREE.Color();
@@ -246,11 +327,11 @@ export class Renderer3D {
   /**
    * Visualize the nutrient environment in 3D
    * @param nutrientData 3D array of nutrient values
-   * @param cellSize Size of each grid cell
+   * @param frame World frame mapping grid cells to scene positions
    */
   public visualizeNutrientEnvironment(
     nutrientData: number[][][],
-    cellSize: number
+    frame: WorldFrame
   ): void {
     // Remove previous visualization if it exists
     if (this.nutrientGrid) {
@@ -268,16 +349,14 @@ export class Renderer3D {
           const nutrient = nutrientData[x][y][z];
           
           // Only visualize cells with significant nutrients
-          if (nutrient > config.BASE_NUTRIENT * 0.2) {
-            // Calculate position
-            const posX = (x - nutrientData.length / 2) * cellSize;
-            const posY = (y - nutrientData[x].length / 2) * cellSize;
-            const posZ = (z - nutrientData[x][y].length / 2) * cellSize;
+          if (nutrient > this.config.BASE_NUTRIENT * 0.2) {
+            // Place the point at the cell centre in world space
+            const position = frame.cellToWorld(x, y, z);
             
-            positions.push(posX, posY, posZ);
+            positions.push(position.x, position.y, position.z);
             
             // Calculate color (green with intensity based on nutrient level)
-            const intensity = nutrient / config.BASE_NUTRIENT;
+            const intensity = nutrient / this.config.BASE_NUTRIENT;
             colors.push(0, intensity, 0);
           }
         }
@@ -291,7 +370,7 @@ export class Renderer3D {
     
     // Create material
     const material = new THREE.PointsMaterial({
-      size: cellSize * 0.8,
+      size: frame.cellSize * 0.8,
       vertexColors: true,
       transparent: true,
       opacity: 0.3,
@@ -316,7 +395,9 @@ export class Renderer3D {
     resourceLevel: number = 0.5
   ): void {
     // Check if this connection already exists
-    if (this.networkConnections.has(id)) return;
+    if (this.networkConnections.has(id)) {
+      return;
+    }
     
     // Create points array
     const points = [
@@ -343,6 +424,22 @@ export class Renderer3D {
     this.networkConnections.set(id, line);
   }
 
+  /**
+   * Remove a network connection, e.g. when its edge was pruned
+   * @param id Unique connection identifier
+   */
+  public removeNetworkConnection(id: string): void {
+    const connection = this.networkConnections.get(id);
+    if (!connection) {
+      return;
+    }
+    
+    this.scene.remove(connection);
+    connection.geometry.dispose();
+    (connection.material as THREE.Material).dispose();
+    this.networkConnections.delete(id);
+  }
+
   /**
    * Clear all objects from the scene
    */
@@ -351,7 +448,7 @@ export class Renderer3D {
     for (const segment of this.hyphaeSegments.values()) {
       this.scene.remove(segment);
       segment.geometry.dispose();
-      (segment.material as THREE.Material).dispose();
+      segment.material.dispose();
     }
     this.hyphaeSegments.clear();
     
@@ -389,6 +486,13 @@ export class Renderer3D {
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(width, height);
+    
+    this.resolution.set(width, height);
+    this.mainHyphaeMaterial.resolution.copy(this.resolution);
+    this.secondaryHyphaeMaterial.resolution.copy(this.resolution);
+    for (const segment of this.hyphaeSegments.values()) {
+      segment.material.resolution.copy(this.resolution);
+    }
   }
   
   /**
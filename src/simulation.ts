@@ -0,0 +1,1412 @@
+// src/simulation.ts
+
+import { Perlin } from "./Perlin.js";
+import { BranchingModel, createBranchingModel } from "./branching.js";
+import { Config, config as globalConfig } from "./constants.js";
+import { EnvironmentGPU } from "./environmentGPU.js";
+import { MycelialNetwork } from "./mycelialNetwork.js";
+import { Random } from "./random.js";
+import { SpatialIndex } from "./spatialIndex.js";
+import { growthRadiusFor } from "./worldFrame.js";
+
+/**
+ * simulation.ts
+ *
+ * Headless simulation core: hyphal tips, the mycelial network, the
+ * nutrient environment and stepping. Has no DOM or canvas dependency;
+ * painters and renderers attach as observers of the events it emits.
+ */
+
+export type GrowthType = "main" | "secondary";
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface HyphaTip {
+  id: number; // Unique within a run
+  x: number;
+  y: number;
+  z: number; // Added z-coordinate for 3D
+  angle: number; // Horizontal angle (in the XY plane)
+  verticalAngle: number; // Vertical angle (for Z-axis movement)
+  life: number;
+  depth: number;
+  growthType: GrowthType;
+  resource: number; // Tracks the resource available to the tip
+  sinceBranch: number; // Hyphal length grown since the last branch point
+  colonyId: number; // Colony the tip belongs to
+  nodeId?: number; // Added to track the corresponding network node ID
+}
+
+/**
+ * A point where a colony is inoculated.
+ */
+export interface Inoculum {
+  position: Point3D;
+  tipCount: number; // Main hyphae emerging from the inoculum
+  resource: number; // Initial resource of each main hypha
+  colonyId: number;
+}
+
+/**
+ * Emitted whenever a tip extends by one segment.
+ */
+export interface SegmentEvent {
+  tip: HyphaTip;
+  from: Point3D;
+  to: Point3D;
+  fromNodeId?: number; // Network node at the start of the segment
+  toNodeId: number; // Network node created at the end of the segment
+  nutrientLevel: number; // Nutrient level at the segment midpoint
+}
+
+/**
+ * Emitted whenever a tip spawns a new branch.
+ */
+export interface BranchEvent {
+  parent: HyphaTip;
+  branch: HyphaTip;
+}
+
+/**
+ * Emitted whenever a tip fuses into an existing part of the network.
+ */
+export interface FusionEvent {
+  tip: HyphaTip;
+  nodeId: number; // Network node at the fused tip
+  targetNodeId: number; // Existing network node the tip connected to
+  from: Point3D;
+  to: Point3D;
+}
+
+export type TipDeathCause =
+  | "starvation"
+  | "boundary"
+  | "senescence"
+  | "culled"
+  | "fusion"
+  | "incompatibility"; // Contact with a vegetatively incompatible colony
+
+/**
+ * Emitted whenever a tip stops growing.
+ */
+export interface TipDeathEvent {
+  tip: HyphaTip;
+  cause: TipDeathCause;
+}
+
+/**
+ * Emitted whenever an idle edge thins out and is pruned from the network.
+ */
+export interface PruneEvent {
+  source: number; // Network node IDs of the removed edge's endpoints
+  target: number;
+}
+
+/**
+ * Resource budget of one growth step. Resource lives in the network nodes,
+ * so resourceAfter = resourceBefore + uptake - extensionCost -
+ * maintenanceCost; translocation between steps only moves it around.
+ */
+export interface MetabolicLedger {
+  uptake: number; // Nutrient absorbed by tips from the environment
+  extensionCost: number; // Resource spent growing new hyphae
+  maintenanceCost: number; // Resource spent keeping existing hyphae alive
+  grownLength: number; // Hyphal length added
+  resourceBefore: number; // Network resource at the start of the step
+  resourceAfter: number; // Network resource at the end of the step
+}
+
+/**
+ * Receives simulation events. All callbacks are optional.
+ */
+export interface SimulationObserver {
+  onSegment?(event: SegmentEvent): void;
+  onBranch?(event: BranchEvent): void;
+  onFusion?(event: FusionEvent): void;
+  onTipDeath?(event: TipDeathEvent): void;
+  onPrune?(event: PruneEvent): void;
+  onMetabolism?(ledger: MetabolicLedger): void;
+  onReset?(): void;
+}
+
+/**
+ * Serializable state of the simulation core (excluding the network and
+ * environment, which export their own state), used by snapshots.
+ */
+export interface SimulationState {
+  tips: HyphaTip[];
+  inocula: Inoculum[];
+  nextTipId: number;
+  growthRadius: number;
+  growthHeight: number;
+  lastReplenishTime: number;
+  frameCount: number;
+  perlinCache: [string, number][]; // Cached noise values influence later steps
+  perlinPermutation: number[];
+  rngState: number;
+}
+
+// Tip Culling to Control Performance
+const MAX_ACTIVE_TIPS = 1000;
+
+// Cell size of the spatial index over live tips
+const TIP_INDEX_CELL_SIZE = 5;
+
+// Nodes this close along the graph to a tip (its own trail and the branch
+// point it grew from) are never fusion targets
+const FUSION_EXCLUDED_HOPS = 3;
+
+// Fraction of the angular difference a tip turns per step toward the radial
+// direction, which keeps colony growth roughly spherical
+const RADIAL_BIAS_STRENGTH = 0.1;
+
+/**
+ * Turns a tip's heading part of the way toward a direction, taking the
+ * shorter way round for the horizontal angle.
+ * @param tip - The tip to steer.
+ * @param direction - Target direction; it need not be normalized.
+ * @param strength - Fraction of the angular difference to turn, from 0 to 1.
+ */
+export function steerToward(
+  tip: HyphaTip,
+  direction: Point3D,
+  strength: number,
+): void {
+  const length = Math.hypot(direction.x, direction.y, direction.z);
+  if (length === 0) {
+    return;
+  }
+
+  // A purely vertical direction says nothing about the horizontal heading
+  if (direction.x !== 0 || direction.y !== 0) {
+    const targetAngle = Math.atan2(direction.y, direction.x);
+    const angleDiff = (targetAngle - tip.angle) % (2 * Math.PI);
+    const correctedAngleDiff =
+      angleDiff > Math.PI
+        ? angleDiff - 2 * Math.PI
+        : angleDiff < -Math.PI
+          ? angleDiff + 2 * Math.PI
+          : angleDiff;
+    tip.angle += correctedAngleDiff * strength;
+  }
+
+  const targetVerticalAngle = Math.asin(direction.z / length);
+  tip.verticalAngle += (targetVerticalAngle - tip.verticalAngle) * strength;
+}
+
+/**
+ * Horizontal and vertical angle of a tip's direction of growth.
+ */
+type Heading = Pick<HyphaTip, "angle" | "verticalAngle">;
+
+/**
+ * Tilts a heading away from itself by a deflection angle.
+ * @param heading - The heading to deflect.
+ * @param axisAngle - Direction of the tilt around the heading (0 to 2π).
+ * @param deflection - Angle between the heading and the result.
+ * @returns The deflected heading.
+ */
+function deflectHeading(
+  heading: Heading,
+  axisAngle: number,
+  deflection: number,
+): Heading {
+  // Convert these angles to a 3D direction vector in the parent's reference frame
+  const sinDeflection = Math.sin(deflection);
+  const branchDirX = sinDeflection * Math.cos(axisAngle);
+  const branchDirY = sinDeflection * Math.sin(axisAngle);
+  const branchDirZ = Math.cos(deflection);
+
+  // We need to rotate this vector from the parent's reference frame
+  // to the world reference frame.
+  // First, calculate parent's direction vector
+  const parentDirX = Math.cos(heading.angle) * Math.cos(heading.verticalAngle);
+  const parentDirY = Math.sin(heading.angle) * Math.cos(heading.verticalAngle);
+  const parentDirZ = Math.sin(heading.verticalAngle);
+
+  // For simplicity, we'll use a simplified rotation approach
+  // (a full quaternion rotation would be more accurate but complex)
+
+  // Create perpendicular vectors for a simplified basis
+  const perpVec1 = { x: -parentDirY, y: parentDirX, z: 0 };
+  // Normalize
+  const perpLength = Math.sqrt(
+    perpVec1.x * perpVec1.x + perpVec1.y * perpVec1.y,
+  );
+  if (perpLength > 0.001) {
+    perpVec1.x /= perpLength;
+    perpVec1.y /= perpLength;
+  } else {
+    perpVec1.x = 1; // Fallback for edge case
+    perpVec1.y = 0;
+  }
+
+  // Second perpendicular vector using cross product
+  const perpVec2 = {
+    x: parentDirY * perpVec1.z - parentDirZ * perpVec1.y,
+    y: parentDirZ * perpVec1.x - parentDirX * perpVec1.z,
+    z: parentDirX * perpVec1.y - parentDirY * perpVec1.x,
+  };
+
+  // Combine to get the branch direction in world space
+  const worldBranchDirX =
+    branchDirZ * parentDirX + branchDirX * perpVec1.x + branchDirY * perpVec2.x;
+  const worldBranchDirY =
+    branchDirZ * parentDirY + branchDirX * perpVec1.y + branchDirY * perpVec2.y;
+  const worldBranchDirZ =
+    branchDirZ * parentDirZ + branchDirX * perpVec1.z + branchDirY * perpVec2.z;
+
+  // Convert the world direction to angles
+  return {
+    angle: Math.atan2(worldBranchDirY, worldBranchDirX),
+    verticalAngle: Math.asin(Math.max(-1, Math.min(1, worldBranchDirZ))),
+  };
+}
+
+/**
+ * Builds the inocula described by INOCULUM_COUNT: a single colony at the
+ * origin, or one colony per inoculum evenly spaced on a horizontal circle
+ * of radius INOCULUM_DISTANCE, each with MAIN_BRANCH_COUNT main hyphae.
+ * @param config - Config to read the inoculation parameters from.
+ * @returns The inocula.
+ */
+export function inoculaFromConfig(config: Config = globalConfig): Inoculum[] {
+  const count = Math.max(1, Math.floor(config.INOCULUM_COUNT));
+  const distance = count > 1 ? config.INOCULUM_DISTANCE : 0;
+  return Array.from({ length: count }, (_, colonyId) => {
+    const angle = (2 * Math.PI * colonyId) / count;
+    return {
+      position: {
+        x: distance * Math.cos(angle),
+        y: distance * Math.sin(angle),
+        z: 0,
+      },
+      tipCount: config.MAIN_BRANCH_COUNT,
+      resource: config.INITIAL_RESOURCE_PER_TIP,
+      colonyId,
+    };
+  });
+}
+
+/**
+ * Spreads headings evenly over the sphere along a fibonacci spiral.
+ * @param count - Number of headings.
+ * @returns The headings.
+ */
+function fibonacciHeadings(count: number): Heading[] {
+  const goldenRatio = (1 + Math.sqrt(5)) / 2;
+  const headings: Heading[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const theta = (2 * Math.PI * i) / goldenRatio; // Azimuthal angle
+    const phi = Math.acos(1 - (2 * (i + 0.5)) / count); // Elevation angle
+
+    // Convert spherical coordinates to Cartesian direction vector
+    const dirX = Math.sin(phi) * Math.cos(theta);
+    const dirY = Math.sin(phi) * Math.sin(theta);
+    const dirZ = Math.cos(phi);
+
+    // Convert direction vector to angles
+    headings.push({
+      angle: Math.atan2(dirY, dirX),
+      verticalAngle: Math.asin(dirZ),
+    });
+  }
+
+  return headings;
+}
+
+/**
+ * Simulation class steps hyphal growth in 3D without any rendering.
+ */
+export class Simulation {
+  private tips: HyphaTip[] = [];
+  private growthRadius: number;
+  private growthHeight: number;
+  private lastReplenishTime: number = 0;
+  private frameCount: number = 0;
+  private lastLedger: MetabolicLedger | null = null;
+
+  // Performance optimization: Cache for Perlin noise values
+  private perlinCache: Map<string, number> = new Map();
+
+  // Live tips, indexed incrementally for proximity checks
+  private tipIndex = new SpatialIndex(TIP_INDEX_CELL_SIZE);
+  private tipsById: Map<number, HyphaTip> = new Map();
+  private nextTipId: number = 0;
+
+  // Inocula set through setInocula(), overriding the ones built from config
+  private inocula: Inoculum[] | null = null;
+  // Inocula the current run was started from
+  private activeInocula: Inoculum[] = [];
+
+  private observers: SimulationObserver[] = [];
+
+  // Overrides config.BRANCHING_MODEL when set
+  private branchingModel: BranchingModel | null = null;
+
+  /**
+   * Constructor initializes the Simulation.
+   * @param width - Width of the simulated area.
+   * @param height - Height of the simulated area.
+   * @param perlin - Instance of Perlin noise generator.
+   * @param envGPU - Instance of EnvironmentGPU for resource management.
+   * @param network - Instance of MycelialNetwork for resource flow management.
+   * @param rng - Seeded random number generator driving every stochastic growth decision.
+   * @param config - Parameters of this run; give each simulation its own instance to compare runs side by side.
+   */
+  constructor(
+    width: number,
+    height: number,
+    private perlin: Perlin,
+    private envGPU: EnvironmentGPU,
+    private network: MycelialNetwork,
+    private rng: Random = new Random(),
+    private config: Config = globalConfig,
+  ) {
+    // Set growth radius and height for a spherical growth volume
+    this.growthRadius = growthRadiusFor(width, height, config);
+    // Make height equal to radius for a more spherical growth area
+    this.growthHeight = this.growthRadius;
+  }
+
+  /**
+   * Registers an observer for simulation events.
+   * @param observer - The observer to notify.
+   */
+  public addObserver(observer: SimulationObserver): void {
+    if (!this.observers.includes(observer)) {
+      this.observers.push(observer);
+    }
+  }
+
+  /**
+   * Unregisters a previously added observer.
+   * @param observer - The observer to remove.
+   */
+  public removeObserver(observer: SimulationObserver): void {
+    this.observers = this.observers.filter((o) => o !== observer);
+  }
+
+  /**
+   * Replaces the branching model selected by config.BRANCHING_MODEL.
+   * @param model - The model to use, or null to follow the config again.
+   */
+  public setBranchingModel(model: BranchingModel | null): void {
+    this.branchingModel = model;
+  }
+
+  /**
+   * Replaces the inocula built from INOCULUM_COUNT and INOCULUM_DISTANCE.
+   * Takes effect on the next init().
+   * @param inocula - The inocula to start from, or null to follow the config again.
+   */
+  public setInocula(inocula: Inoculum[] | null): void {
+    this.inocula = inocula;
+  }
+
+  /**
+   * Gets the inocula the current run was started from.
+   */
+  public getInocula(): readonly Inoculum[] {
+    return this.activeInocula;
+  }
+
+  /**
+   * Gets the currently active tips.
+   * @returns The live hypha tips.
+   */
+  public getTips(): readonly HyphaTip[] {
+    return this.tips;
+  }
+
+  /**
+   * Gets the number of frames simulated since init().
+   */
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * Gets the resource budget of the last growth step.
+   * @returns The ledger, or null if no step has run since init().
+   */
+  public getLedger(): MetabolicLedger | null {
+    return this.lastLedger ? { ...this.lastLedger } : null;
+  }
+
+  /**
+   * Gets the parameters this simulation runs with.
+   */
+  public getConfig(): Config {
+    return this.config;
+  }
+
+  /**
+   * Gets the mycelial network grown by this simulation.
+   */
+  public getNetwork(): MycelialNetwork {
+    return this.network;
+  }
+
+  /**
+   * Gets the nutrient environment the colony grows in.
+   */
+  public getEnvironment(): EnvironmentGPU {
+    return this.envGPU;
+  }
+
+  /**
+   * Captures the simulation core state, including PRNG and noise state.
+   * @returns A deep copy of everything needed to resume stepping.
+   */
+  public exportState(): SimulationState {
+    return {
+      tips: this.tips.map((tip) => ({ ...tip })),
+      inocula: this.activeInocula.map((inoculum) => ({
+        ...inoculum,
+        position: { ...inoculum.position },
+      })),
+      nextTipId: this.nextTipId,
+      growthRadius: this.growthRadius,
+      growthHeight: this.growthHeight,
+      lastReplenishTime: this.lastReplenishTime,
+      frameCount: this.frameCount,
+      perlinCache: Array.from(this.perlinCache),
+      perlinPermutation: this.perlin.getPermutation(),
+      rngState: this.rng.getState(),
+    };
+  }
+
+  /**
+   * Replaces the simulation core state with a previously exported one.
+   * Observers are reset and then sent every restored edge as a segment so
+   * they can redraw the colony. The network must be restored first.
+   * @param state - State obtained from exportState().
+   */
+  public importState(state: SimulationState): void {
+    this.tips = state.tips.map((tip) => ({ ...tip }));
+    this.activeInocula = state.inocula.map((inoculum) => ({
+      ...inoculum,
+      position: { ...inoculum.position },
+    }));
+    this.nextTipId = state.nextTipId;
+    this.growthRadius = state.growthRadius;
+    this.growthHeight = state.growthHeight;
+    this.lastReplenishTime = state.lastReplenishTime;
+    this.frameCount = state.frameCount;
+    this.lastLedger = null;
+    this.perlinCache = new Map(state.perlinCache);
+    this.perlin.setPermutation(state.perlinPermutation);
+    this.rng.setState(state.rngState);
+
+    this.clearTipIndex();
+    for (const tip of this.tips) {
+      this.registerTip(tip);
+    }
+
+    for (const observer of this.observers) {
+      observer.onReset?.();
+    }
+    this.replaySegments();
+  }
+
+  /**
+   * Reports every network edge to observers as a segment. Edges keep no
+   * tip, so each is described by the node it grew into.
+   */
+  private replaySegments(): void {
+    if (this.observers.length === 0) {
+      return;
+    }
+    for (const edge of this.network.getEdges()) {
+      const fromNode = this.network.getNode(edge.source);
+      const toNode = this.network.getNode(edge.target);
+      if (!fromNode || !toNode) {
+        continue;
+      }
+      const tip: HyphaTip = {
+        id: -1,
+        x: toNode.x,
+        y: toNode.y,
+        z: toNode.z,
+        angle: 0,
+        verticalAngle: 0,
+        life: 0,
+        depth: toNode.depth ?? 0,
+        growthType: toNode.growthType ?? "main",
+        resource: toNode.resource,
+        sinceBranch: 0,
+        colonyId: toNode.colonyId ?? 0,
+        nodeId: toNode.id,
+      };
+      const from = { x: fromNode.x, y: fromNode.y, z: fromNode.z };
+      const to = { x: toNode.x, y: toNode.y, z: toNode.z };
+      const nutrientLevel = this.envGPU.sampleNutrient(
+        (from.x + to.x) / 2,
+        (from.y + to.y) / 2,
+        (from.z + to.z) / 2,
+      );
+      for (const observer of this.observers) {
+        observer.onSegment?.({
+          tip,
+          from,
+          to,
+          fromNodeId: fromNode.id,
+          toNodeId: toNode.id,
+          nutrientLevel,
+        });
+      }
+    }
+  }
+
+  /**
+   * Initializes the growth simulation by creating main trunks.
+   */
+  public init() {
+    this.tips = [];
+
+    // Reset caches
+    this.perlinCache.clear();
+    this.clearTipIndex();
+    this.nextTipId = 0;
+    this.frameCount = 0;
+    this.lastReplenishTime = 0;
+    this.lastLedger = null;
+
+    this.activeInocula = (this.inocula ?? inoculaFromConfig(this.config)).map(
+      (inoculum) => ({ ...inoculum, position: { ...inoculum.position } }),
+    );
+
+    for (const inoculum of this.activeInocula) {
+      const { position, colonyId } = inoculum;
+      const rootNodeIds: number[] = [];
+
+      // Main trunks leave the inoculum evenly spread in all directions
+      for (const heading of fibonacciHeadings(inoculum.tipCount)) {
+        const newTip: HyphaTip = {
+          id: this.nextTipId++,
+          x: position.x,
+          y: position.y,
+          z: position.z,
+          ...heading,
+          life: this.config.BASE_LIFE,
+          depth: 0,
+          growthType: "main",
+          resource: inoculum.resource,
+          sinceBranch: 0,
+          colonyId,
+        };
+        this.registerTip(newTip);
+
+        // Create the initial network nodes and store their IDs
+        newTip.nodeId = this.network.createNode(
+          newTip.x,
+          newTip.y,
+          newTip.z,
+          newTip.resource,
+          { depth: newTip.depth, growthType: newTip.growthType, colonyId },
+        );
+        rootNodeIds.push(newTip.nodeId);
+        this.tips.push(newTip);
+      }
+
+      // All main hyphae of an inoculum emerge from one point, so link their root nodes
+      for (const nodeId of rootNodeIds.slice(1)) {
+        this.network.connectNodes(rootNodeIds[0], nodeId);
+      }
+    }
+
+    for (const observer of this.observers) {
+      observer.onReset?.();
+    }
+  }
+
+  /**
+   * Advances the simulation by one frame: grows tips, flows resources
+   * through the network and updates the nutrient environment.
+   * @param currentTime - The current (real or simulated) time in milliseconds.
+   * @param stepCount - Number of growth steps to perform this frame.
+   */
+  public update(currentTime: number, stepCount: number = 1): void {
+    for (let i = 0; i < stepCount; i++) {
+      this.step();
+    }
+
+    // Handle resource flow within the network; growing tips are the sinks
+    const sinkIds = this.tips.flatMap((tip) =>
+      tip.nodeId !== undefined ? [tip.nodeId] : [],
+    );
+    this.network.flowResources(sinkIds);
+
+    // Thicken busy edges into cords and prune idle ones
+    for (const [source, target] of this.network.adaptEdges(sinkIds)) {
+      for (const observer of this.observers) {
+        observer.onPrune?.({ source, target });
+      }
+    }
+
+    // Diffuse nutrients less frequently for better performance
+    this.frameCount++;
+    if (this.frameCount % 5 === 0) {
+      this.envGPU.diffuseNutrients();
+    }
+
+    // Periodically replenish nutrients (every 5 seconds)
+    if (currentTime - this.lastReplenishTime > 5000) {
+      this.envGPU.replenishNutrients();
+      this.lastReplenishTime = currentTime;
+    }
+  }
+
+  /**
+   * Removes all tips and clears cached state.
+   */
+  public clear(): void {
+    this.tips = [];
+    this.perlinCache.clear();
+    this.clearTipIndex();
+  }
+
+  /**
+   * Gets a cached Perlin noise value or calculates and caches a new one
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param z - Z coordinate
+   * @param offset - Optional offset for different noise patterns
+   * @returns Perlin noise value
+   */
+  private getCachedPerlinNoise(
+    x: number,
+    y: number,
+    z: number = 0,
+    offset: number = 0,
+  ): number {
+    // For 2D noise (backward compatibility)
+    if (z === 0 && !this.config.ENABLE_3D) {
+      const key = `2D:${(x * this.config.PERLIN_SCALE).toFixed(1)},${(y * this.config.PERLIN_SCALE).toFixed(1)},${offset}`;
+      if (!this.perlinCache.has(key)) {
+        const value = this.perlin.noise2D(
+          (x + offset) * this.config.PERLIN_SCALE,
+          (y + offset) * this.config.PERLIN_SCALE,
+        );
+        this.perlinCache.set(key, value);
+      }
+      return this.perlinCache.get(key)!;
+    }
+
+    // For 3D noise
+    const key = `3D:${(x * this.config.PERLIN_SCALE).toFixed(1)},${(y * this.config.PERLIN_SCALE).toFixed(1)},${(z * this.config.PERLIN_SCALE).toFixed(1)},${offset}`;
+    if (!this.perlinCache.has(key)) {
+      const value = this.perlin.noise3D(
+        (x + offset) * this.config.PERLIN_SCALE,
+        (y + offset) * this.config.PERLIN_SCALE,
+        (z + offset) * this.config.PERLIN_SCALE,
+      );
+      this.perlinCache.set(key, value);
+
+      // Keep cache size reasonable
+      if (this.perlinCache.size > 10000) {
+        // Clear half the cache when it gets too large
+        const keys = Array.from(this.perlinCache.keys());
+        for (let i = 0; i < 5000; i++) {
+          this.perlinCache.delete(keys[i]);
+        }
+      }
+    }
+    return this.perlinCache.get(key)!;
+  }
+
+  /**
+   * Adds a live tip to the tip index.
+   * @param tip - The tip to track.
+   */
+  private registerTip(tip: HyphaTip): void {
+    this.tipsById.set(tip.id, tip);
+    this.tipIndex.insertPoint(tip.id, tip.x, tip.y, tip.z);
+  }
+
+  /**
+   * Removes a dead tip from the tip index.
+   * @param tip - The tip to stop tracking.
+   */
+  private unregisterTip(tip: HyphaTip): void {
+    this.tipsById.delete(tip.id);
+    this.tipIndex.removePoint(tip.id);
+  }
+
+  /**
+   * Removes every tip from the tip index.
+   */
+  private clearTipIndex(): void {
+    this.tipsById.clear();
+    this.tipIndex.clear();
+  }
+
+  /**
+   * Checks if a position is too close to existing tips
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param z - Z coordinate
+   * @param growthType - Growth type to compare against
+   * @returns Whether the position is too close to existing tips
+   */
+  private isTooCloseToExistingTips(
+    x: number,
+    y: number,
+    z: number,
+    growthType: GrowthType,
+  ): boolean {
+    return (
+      this.tipIndex.queryRadius(
+        x,
+        y,
+        z,
+        this.config.ANASTOMOSIS_RADIUS,
+        (id) => this.tipsById.get(id)!.growthType !== growthType,
+      ).length > 0
+    );
+  }
+
+  /**
+   * Finds the inoculum of a tip's colony closest to the tip.
+   * @param tip - The tip.
+   * @returns Position of the inoculum, or the origin if the colony has none.
+   */
+  private nearestInoculum(tip: HyphaTip): Point3D {
+    let nearest: Point3D = { x: 0, y: 0, z: 0 };
+    let nearestDistance = Infinity;
+    for (const { position, colonyId } of this.activeInocula) {
+      if (colonyId !== tip.colonyId) {
+        continue;
+      }
+      const distance = Math.hypot(
+        tip.x - position.x,
+        tip.y - position.y,
+        tip.z - position.z,
+      );
+      if (distance < nearestDistance) {
+        nearest = position;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Counts the other live tips near a tip.
+   * @param tip - The tip at the centre of the search.
+   * @param radius - Search radius.
+   * @returns Number of other tips within the radius.
+   */
+  private countNearbyTips(tip: HyphaTip, radius: number): number {
+    return this.tipIndex.queryRadius(
+      tip.x,
+      tip.y,
+      tip.z,
+      radius,
+      (id) => id !== tip.id,
+    ).length;
+  }
+
+  /**
+   * Fuses a tip into the network if it has come within ANASTOMOSIS_RADIUS
+   * of a node or segment that is not part of its own recent trail. A fused
+   * tip connects its node to the target and stops growing. Which colonies
+   * a tip may fuse with follows COLONY_FUSION_MODE; under "incompatible" a
+   * tip touching another colony stops without fusing.
+   * @param tip - The tip that just moved.
+   * @param nodeId - The network node created at the tip's new position.
+   * @returns Whether the tip stopped growing.
+   */
+  private tryFuse(tip: HyphaTip, nodeId: number): boolean {
+    const mode = this.config.COLONY_FUSION_MODE;
+    const targetNodeId = this.network.findFusionTarget(
+      tip.x,
+      tip.y,
+      tip.z,
+      this.config.ANASTOMOSIS_RADIUS,
+      this.network.getNodesWithinHops(nodeId, FUSION_EXCLUDED_HOPS),
+      mode === "self" ? tip.colonyId : undefined,
+    );
+    if (targetNodeId === undefined) {
+      return false;
+    }
+
+    const target = this.network.getNode(targetNodeId)!;
+    if (mode === "incompatible" && target.colonyId !== tip.colonyId) {
+      tip.life = 0;
+      this.emitTipDeath(tip, "incompatibility");
+      return true;
+    }
+
+    this.network.connectNodes(nodeId, targetNodeId);
+    tip.life = 0;
+
+    for (const observer of this.observers) {
+      observer.onFusion?.({
+        tip,
+        nodeId,
+        targetNodeId,
+        from: { x: tip.x, y: tip.y, z: tip.z },
+        to: { x: target.x, y: target.y, z: target.z },
+      });
+    }
+    this.emitTipDeath(tip, "fusion");
+
+    return true;
+  }
+
+  /**
+   * Notifies observers that a tip has stopped growing.
+   * @param tip - The tip that died.
+   * @param cause - Why it died.
+   */
+  private emitTipDeath(tip: HyphaTip, cause: TipDeathCause): void {
+    for (const observer of this.observers) {
+      observer.onTipDeath?.({ tip, cause });
+    }
+  }
+
+  /**
+   * Simulates a single step of hyphal growth in 3D.
+   */
+  public step() {
+    const newTips: HyphaTip[] = [];
+    const branchingModel =
+      this.branchingModel ??
+      createBranchingModel(this.config.BRANCHING_MODEL, this.config);
+
+    // Every hypha pays its upkeep before the tips grow
+    const ledger: MetabolicLedger = {
+      uptake: 0,
+      extensionCost: 0,
+      maintenanceCost: 0,
+      grownLength: 0,
+      resourceBefore: this.network.getTotalResource(),
+      resourceAfter: 0,
+    };
+    ledger.maintenanceCost = this.network.chargeMaintenance(
+      this.config.NODE_MAINTENANCE_COST,
+    );
+
+    // Process tips in batches for better performance
+    const batchSize = 100;
+    for (let i = 0; i < this.tips.length; i += batchSize) {
+      const batch = this.tips.slice(i, i + batchSize);
+
+      for (const tip of batch) {
+        if (tip.life <= 0) {
+          continue;
+        }
+
+        // Absorb nutrient from the environment into the tip's node, whose
+        // resource is the tip's growth budget
+        const absorbed = this.envGPU.consumeResource(
+          tip.x,
+          tip.y,
+          tip.z,
+          this.config.NUTRIENT_CONSUMPTION_RATE,
+        );
+        ledger.uptake += absorbed;
+        if (tip.nodeId !== undefined) {
+          this.network.addResource(tip.nodeId, absorbed);
+          tip.resource = this.network.getResource(tip.nodeId);
+        } else {
+          tip.resource += absorbed;
+        }
+
+        // A tip whose node has run dry cannot pay for growth
+        if (tip.resource <= 0) {
+          tip.life = 0;
+          this.emitTipDeath(tip, "starvation");
+          continue;
+        }
+
+        const oldX = tip.x;
+        const oldY = tip.y;
+        const oldZ = tip.z;
+
+        // Use cached Perlin noise for horizontal angle drift
+        const nVal = this.getCachedPerlinNoise(tip.x, tip.y, tip.z);
+        tip.angle += nVal * this.config.ANGLE_DRIFT_STRENGTH;
+
+        // Use cached Perlin noise for vertical angle drift
+        const nValVertical = this.getCachedPerlinNoise(
+          tip.x,
+          tip.y,
+          tip.z,
+          5678,
+        );
+        tip.verticalAngle +=
+          nValVertical * this.config.VERTICAL_ANGLE_DRIFT_STRENGTH;
+
+        // Apply gravity influence - bias vertical angle downward based on depth
+        // Deeper hyphae tend to grow more horizontally
+        if (tip.z > 0) {
+          const gravityFactor =
+            this.config.GRAVITY_INFLUENCE * (tip.z / this.growthHeight);
+          tip.verticalAngle -= gravityFactor * 0.01;
+        }
+
+        // Chemotropism: turn toward richer substrate
+        if (this.config.CHEMOTROPISM_STRENGTH > 0) {
+          this.applyChemotropism(tip);
+        }
+
+        // Autotropism: turn away from crowded mycelium
+        if (this.config.AUTOTROPISM_STRENGTH > 0) {
+          this.applyAutotropism(tip);
+        }
+
+        // Clamp vertical angle to prevent extreme values
+        tip.verticalAngle = Math.max(
+          -Math.PI / 2,
+          Math.min(Math.PI / 2, tip.verticalAngle),
+        );
+
+        // Use cached Perlin noise for wiggle
+        const nVal2 = this.getCachedPerlinNoise(tip.x, tip.y, tip.z, 1234);
+        const wiggle = nVal2 * this.config.WIGGLE_STRENGTH;
+
+        // Vertical wiggle
+        const nVal3 = this.getCachedPerlinNoise(tip.x, tip.y, tip.z, 4321);
+        const verticalWiggle = nVal3 * this.config.VERTICAL_WIGGLE_STRENGTH;
+
+        // Optimize step size calculation
+        const stepMultiplier = Math.min(
+          1.5,
+          tip.resource / this.config.INITIAL_RESOURCE_PER_TIP,
+        );
+        const actualStepSize =
+          this.config.STEP_SIZE * (0.5 + stepMultiplier * 1.5);
+
+        // Optimize movement calculations by pre-computing trig values
+        const cosAngle = Math.cos(tip.angle);
+        const sinAngle = Math.sin(tip.angle);
+        const cosVerticalAngle = Math.cos(tip.verticalAngle);
+        const sinVerticalAngle = Math.sin(tip.verticalAngle);
+
+        // Move the tip forward in 3D space
+        const growthFactor = this.config.GROWTH_SPEED_MULTIPLIER;
+        const wiggleFactor = wiggle * 0.2;
+        const verticalWiggleFactor = verticalWiggle * 0.1;
+
+        // Calculate 3D movement
+        // Horizontal movement is scaled by cosine of vertical angle
+        let dx =
+          (cosAngle * cosVerticalAngle * actualStepSize + wiggleFactor) *
+          growthFactor;
+        let dy =
+          (sinAngle * cosVerticalAngle * actualStepSize + wiggleFactor) *
+          growthFactor;
+        // Vertical movement is determined by sine of vertical angle
+        let dz =
+          (sinVerticalAngle * actualStepSize + verticalWiggleFactor) *
+          growthFactor;
+
+        // Extension costs resource per unit length, so a tip only grows as
+        // far as its budget pays for
+        const affordable = tip.resource / this.config.HYPHAL_GROWTH_COST;
+        const stepLength = Math.hypot(dx, dy, dz);
+        if (stepLength > affordable) {
+          const scale = affordable / stepLength;
+          dx *= scale;
+          dy *= scale;
+          dz *= scale;
+        }
+        tip.x += dx;
+        tip.y += dy;
+        tip.z += dz;
+
+        // For uniformly distributed 3D growth, remove the bias that favors horizontal growth
+        // Instead, add a slight correction to maintain spherical shape
+
+        // Apply a small correction to maintain the direction away from origin
+        // This helps maintain uniform radial growth
+        const inoculum = this.nearestInoculum(tip);
+        steerToward(
+          tip,
+          {
+            x: tip.x - inoculum.x,
+            y: tip.y - inoculum.y,
+            z: tip.z - inoculum.z,
+          },
+          RADIAL_BIAS_STRENGTH,
+        );
+
+        // For a spherical growth pattern, we don't need to enforce specific z bounds
+        // The 3D distance check below will handle containing the growth within the spherical boundary
+
+        // 3D distance check using squared distance from the colony's inoculum,
+        // so offset colonies get the same growth sphere as a central one
+        const distSquared =
+          (tip.x - inoculum.x) ** 2 +
+          (tip.y - inoculum.y) ** 2 +
+          (tip.z - inoculum.z) ** 2;
+        if (distSquared > this.growthRadius * this.growthRadius) {
+          tip.life = 0;
+          this.emitTipDeath(tip, "boundary");
+          continue;
+        }
+
+        // Keep the tip index in sync with the new position
+        this.tipIndex.insertPoint(tip.id, tip.x, tip.y, tip.z);
+        const grown = Math.hypot(tip.x - oldX, tip.y - oldY, tip.z - oldZ);
+        tip.sinceBranch += grown;
+
+        // Decrement life
+        tip.life--;
+
+        // Track the last nodeId for connecting branch nodes
+        const prevNodeId = tip.nodeId;
+
+        // Pay for the new hypha from the tip's node. The rest stays in the
+        // hypha behind, and translocation brings it up to the new node
+        const cost = this.config.HYPHAL_GROWTH_COST * grown;
+        ledger.grownLength += grown;
+        if (prevNodeId !== undefined) {
+          ledger.extensionCost += this.network.withdrawResource(
+            prevNodeId,
+            cost,
+          );
+          tip.resource = this.network.getResource(prevNodeId);
+        } else {
+          ledger.extensionCost += Math.min(cost, tip.resource);
+          tip.resource = Math.max(0, tip.resource - cost);
+        }
+
+        // Create a network node for this position; a tip without one yet
+        // brings its own resource into the network
+        const nodeId = this.network.createNode(
+          tip.x,
+          tip.y,
+          tip.z,
+          prevNodeId !== undefined ? 0 : tip.resource,
+          {
+            depth: tip.depth,
+            growthType: tip.growthType,
+            colonyId: tip.colonyId,
+          },
+        );
+
+        // Store the nodeId in the tip for future connections
+        tip.nodeId = nodeId;
+
+        // Connect to the previous node if it exists (creates the network graph)
+        if (prevNodeId !== undefined) {
+          this.network.connectNodes(prevNodeId, nodeId);
+        }
+
+        // Notify painters and renderers about the new segment
+        if (this.observers.length > 0) {
+          const from = { x: oldX, y: oldY, z: oldZ };
+          const to = { x: tip.x, y: tip.y, z: tip.z };
+          const nutrientLevel = this.envGPU.sampleNutrient(
+            (oldX + tip.x) / 2,
+            (oldY + tip.y) / 2,
+            (oldZ + tip.z) / 2,
+          );
+          for (const observer of this.observers) {
+            observer.onSegment?.({
+              tip,
+              from,
+              to,
+              fromNodeId: prevNodeId,
+              toNodeId: nodeId,
+              nutrientLevel,
+            });
+          }
+        }
+
+        // Anastomosis: fuse into a nearby node or segment of the network
+        if (this.tryFuse(tip, nodeId)) {
+          continue;
+        }
+
+        // Branch as decided by the active branching model
+        const decision = branchingModel.decide(
+          {
+            tip,
+            nutrientLevel: this.envGPU.sampleNutrient(tip.x, tip.y, tip.z),
+            countNearbyTips: (radius) => this.countNearbyTips(tip, radius),
+          },
+          this.rng,
+        );
+        if (decision) {
+          for (let i = 0; i < decision.count; i++) {
+            const newTip =
+              decision.type === "apical"
+                ? this.splitTip(tip)
+                : this.spawnBranch(tip);
+            if (newTip) {
+              newTips.push(newTip);
+              tip.sinceBranch = 0;
+            }
+          }
+        }
+
+        if (tip.life <= 0) {
+          this.emitTipDeath(tip, "senescence");
+        }
+      }
+    }
+
+    // Add new tips directly without the expensive some() check
+    // We already filtered out tips that would be too close in the branching logic
+    this.tips.push(...newTips);
+
+    // Remove dead tips more efficiently
+    const liveTips: HyphaTip[] = [];
+    for (const tip of this.tips) {
+      if (tip.life > 0) {
+        liveTips.push(tip);
+      } else {
+        this.unregisterTip(tip);
+      }
+    }
+    this.tips = liveTips;
+
+    // Tip Culling to Control Performance
+    if (this.tips.length > MAX_ACTIVE_TIPS) {
+      // Keep the newest tips (at the end of the array)
+      const culled = this.tips.slice(0, this.tips.length - MAX_ACTIVE_TIPS);
+      this.tips = this.tips.slice(this.tips.length - MAX_ACTIVE_TIPS);
+      for (const tip of culled) {
+        this.unregisterTip(tip);
+        this.emitTipDeath(tip, "culled");
+      }
+    }
+
+    ledger.resourceAfter = this.network.getTotalResource();
+    this.lastLedger = ledger;
+    for (const observer of this.observers) {
+      observer.onMetabolism?.({ ...ledger });
+    }
+  }
+
+  /**
+   * Steers a tip up the nutrient gradient sensed across
+   * CHEMOTROPISM_SENSING_RADIUS. The turn scales with the relative
+   * difference in nutrients across the sensing span, so tips ignore
+   * shallow gradients in rich substrate but forage toward pockets.
+   * @param tip - The tip to steer.
+   */
+  private applyChemotropism(tip: HyphaTip): void {
+    const radius = this.config.CHEMOTROPISM_SENSING_RADIUS;
+    const gradient = this.envGPU.getNutrientGradient(
+      tip.x,
+      tip.y,
+      tip.z,
+      radius,
+    );
+    const magnitude = Math.hypot(gradient.x, gradient.y, gradient.z);
+    if (magnitude === 0) {
+      return;
+    }
+
+    const level = this.envGPU.sampleNutrient(tip.x, tip.y, tip.z);
+    const contrast =
+      level > 0 ? Math.min(1, (2 * radius * magnitude) / level) : 1;
+    steerToward(tip, gradient, this.config.CHEMOTROPISM_STRENGTH * contrast);
+  }
+
+  /**
+   * Steers a tip away from nearby network nodes sensed within
+   * AUTOTROPISM_SENSING_RADIUS, ignoring the tip's own recent trail. Each
+   * node pushes with a weight falling linearly to zero at the sensing
+   * radius; the turn saturates as the summed weight grows, so tips keep
+   * their spacing without being thrown around in dense regions.
+   * @param tip - The tip to steer.
+   */
+  private applyAutotropism(tip: HyphaTip): void {
+    const radius = this.config.AUTOTROPISM_SENSING_RADIUS;
+    const nearby = this.network.findNodesWithinRadius(
+      tip.x,
+      tip.y,
+      tip.z,
+      radius,
+    );
+    if (nearby.length === 0) {
+      return;
+    }
+
+    // Enough hops to cover the trail within the radius at the shortest step
+    const minStep =
+      this.config.STEP_SIZE * this.config.GROWTH_SPEED_MULTIPLIER * 0.5;
+    const ownTrail =
+      tip.nodeId !== undefined
+        ? this.network.getNodesWithinHops(
+            tip.nodeId,
+            Math.ceil(radius / minStep),
+          )
+        : new Set<number>();
+
+    const away = { x: 0, y: 0, z: 0 };
+    let crowding = 0;
+    for (const id of nearby) {
+      if (ownTrail.has(id)) {
+        continue;
+      }
+      const node = this.network.getNode(id)!;
+      const dx = tip.x - node.x;
+      const dy = tip.y - node.y;
+      const dz = tip.z - node.z;
+      const distance = Math.hypot(dx, dy, dz);
+      if (distance === 0) {
+        continue;
+      }
+      const weight = 1 - distance / radius;
+      away.x += (dx / distance) * weight;
+      away.y += (dy / distance) * weight;
+      away.z += (dz / distance) * weight;
+      crowding += weight;
+    }
+
+    if (crowding > 0) {
+      steerToward(
+        tip,
+        away,
+        (this.config.AUTOTROPISM_STRENGTH * crowding) / (1 + crowding),
+      );
+    }
+  }
+
+  /**
+   * Spawns a secondary branch from a tip in a random direction around
+   * the parent's heading.
+   * @param tip - The parent tip.
+   * @returns The new tip, or null if it would be too close to existing tips.
+   */
+  private spawnBranch(tip: HyphaTip): HyphaTip | null {
+    // For more uniform 3D branching, use spherical coordinate system
+    // Create random branch direction with uniform distribution in 3D space
+
+    // Generate random direction relative to the parent direction
+    // Use spherical coordinates with the parent's direction as the "north pole"
+
+    // Random angle around the parent direction axis (full circle)
+    const branchAxisAngle = this.rng.next() * 2 * Math.PI;
+
+    // Random deflection angle from parent direction (biased towards larger angles)
+    // Using distribution that favors angles closer to 90 degrees (perpendicular)
+    const branchDeflectionAngle =
+      Math.acos(Math.pow(this.rng.next(), 0.5)) * 0.8;
+
+    const heading = deflectHeading(tip, branchAxisAngle, branchDeflectionAngle);
+    return this.createBranchTip(tip, heading, "secondary");
+  }
+
+  /**
+   * Splits a tip dichotomously: the parent and a new daughter of the same
+   * growth type diverge symmetrically by DICHOTOMOUS_BRANCH_ANGLE about the
+   * parent's former heading.
+   * @param tip - The tip to split.
+   * @returns The new daughter, or null if it would be too close to existing tips.
+   */
+  private splitTip(tip: HyphaTip): HyphaTip | null {
+    const splitAxisAngle = this.rng.next() * 2 * Math.PI;
+    const halfAngle = this.config.DICHOTOMOUS_BRANCH_ANGLE / 2;
+
+    const daughter = this.createBranchTip(
+      tip,
+      deflectHeading(tip, splitAxisAngle, halfAngle),
+      tip.growthType,
+    );
+    if (daughter) {
+      const heading = deflectHeading(tip, splitAxisAngle + Math.PI, halfAngle);
+      tip.angle = heading.angle;
+      tip.verticalAngle = heading.verticalAngle;
+    }
+    return daughter;
+  }
+
+  /**
+   * Creates a branch tip just ahead of its parent, along with its network
+   * node, and notifies observers.
+   * @param tip - The parent tip.
+   * @param heading - Heading of the new tip.
+   * @param growthType - Growth type of the new tip.
+   * @returns The new tip, or null if it would be too close to existing tips.
+   */
+  private createBranchTip(
+    tip: HyphaTip,
+    heading: Heading,
+    growthType: GrowthType,
+  ): HyphaTip | null {
+    const { angle: newAngle, verticalAngle: newVerticalAngle } = heading;
+
+    // Slightly longer spawn distance for more visible branching
+    const spawnDistance =
+      this.config.STEP_SIZE * this.config.GROWTH_SPEED_MULTIPLIER * 1.2;
+
+    // Calculate spawn position in 3D
+    const spawnX =
+      tip.x + Math.cos(newAngle) * Math.cos(newVerticalAngle) * spawnDistance;
+    const spawnY =
+      tip.y + Math.sin(newAngle) * Math.cos(newVerticalAngle) * spawnDistance;
+    const spawnZ = tip.z + Math.sin(newVerticalAngle) * spawnDistance;
+
+    // Skip creating new tips that would be too close to existing ones
+    if (this.isTooCloseToExistingTips(spawnX, spawnY, spawnZ, growthType)) {
+      return null;
+    }
+
+    // The branch shares its parent's supply and takes half of whatever has
+    // reached the parent's node
+    const resource = tip.resource / 2;
+    tip.resource -= resource;
+    const share =
+      tip.nodeId !== undefined
+        ? this.network.withdrawResource(
+            tip.nodeId,
+            this.network.getResource(tip.nodeId) / 2,
+          )
+        : resource;
+
+    // Create the new branch node in the network
+    const branchNodeId = this.network.createNode(
+      spawnX,
+      spawnY,
+      spawnZ,
+      share,
+      { depth: tip.depth + 1, growthType, colonyId: tip.colonyId },
+    );
+
+    // Connect to the parent tip's node
+    if (tip.nodeId !== undefined) {
+      this.network.connectNodes(tip.nodeId, branchNodeId);
+    }
+
+    // Create the new tip with the node ID already set
+    const newTip: HyphaTip = {
+      id: this.nextTipId++,
+      x: spawnX,
+      y: spawnY,
+      z: spawnZ,
+      angle: newAngle,
+      verticalAngle: newVerticalAngle,
+      life: Math.max(
+        tip.life * this.config.BRANCH_DECAY,
+        this.config.BASE_LIFE * 0.5,
+      ),
+      depth: tip.depth + 1,
+      growthType,
+      resource,
+      sinceBranch: 0,
+      colonyId: tip.colonyId,
+      nodeId: branchNodeId, // Store the node ID in the tip
+    };
+    this.registerTip(newTip);
+
+    for (const observer of this.observers) {
+      observer.onBranch?.({ parent: tip, branch: newTip });
+    }
+
+    return newTip;
+  }
+}
@@ -0,0 +1,665 @@
+// src/snapshot.ts
+
+import { ConfigValidationError, validateConfig } from "./configSchema.js";
+import { Config } from "./constants.js";
+import { EnvironmentState } from "./environmentGPU.js";
+import { NetworkNode, NetworkState } from "./mycelialNetwork.js";
+import { GrowthType, Simulation, SimulationState } from "./simulation.js";
+
+/**
+ * snapshot.ts
+ *
+ * Versioned save/restore of a complete simulation: tips, network graph,
+ * nutrient grid, config, frame counters and PRNG/noise state. Restoring a
+ * snapshot resumes stepping bit-for-bit. Two encodings are provided:
+ * plain JSON and a compact binary variant that stores the nutrient grid
+ * as float32 and the network graph as typed columns.
+ */
+
+export const SNAPSHOT_VERSION = 1;
+
+// "MYCS" in ASCII, written little-endian at the start of binary snapshots
+const BINARY_MAGIC = 0x5343594d;
+// magic + version + header byte length + node, edge and active node counts
+const BINARY_PREAMBLE_BYTES = 24;
+
+export interface SimulationSnapshot {
+  version: number;
+  config: Config;
+  simulation: SimulationState;
+  network: NetworkState;
+  environment: EnvironmentState;
+}
+
+/**
+ * Thrown when snapshot data cannot be decoded or restored.
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Captures the full state of a simulation and the config it runs with.
+ * @param simulation - The simulation to capture.
+ * @returns A self-contained snapshot sharing no references with the simulation.
+ */
+export function createSnapshot(simulation: Simulation): SimulationSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    config: { ...simulation.getConfig() },
+    simulation: simulation.exportState(),
+    network: simulation.getNetwork().exportState(),
+    environment: simulation.getEnvironment().exportState(),
+  };
+}
+
+/**
+ * Restores a snapshot into an existing simulation, replacing the values of
+ * the simulation's config with the ones the snapshot was taken with.
+ * @param simulation - The simulation to overwrite.
+ * @param snapshot - Snapshot obtained from createSnapshot() or a decoder.
+ * @throws SnapshotError if the version is unsupported, the snapshot's
+ *         config fails validation or its state is malformed (e.g. missing
+ *         fields, a nutrient grid that does not match its dimensions, or
+ *         ids of nodes that do not exist); nothing is restored in that case.
+ */
+export function restoreSnapshot(
+  simulation: Simulation,
+  snapshot: SimulationSnapshot,
+): void {
+  checkVersion(snapshot.version);
+
+  // Validate everything the imports below would reject before any of them
+  // touches the simulation
+  let config: Partial<Config>;
+  try {
+    config = validateConfig(snapshot.config, simulation.getConfig());
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new SnapshotError(
+        `Snapshot config is invalid: ${error.issues.join("; ")}`,
+      );
+    }
+    throw error;
+  }
+  checkEnvironment(snapshot.environment);
+  checkSimulation(snapshot.simulation, checkNetwork(snapshot.network));
+
+  Object.assign(simulation.getConfig(), config);
+  simulation.getEnvironment().importState(snapshot.environment);
+  simulation.getNetwork().importState(snapshot.network);
+  simulation.importState(snapshot.simulation);
+}
+
+/**
+ * Serializes a snapshot as JSON text.
+ * @param snapshot - The snapshot to serialize.
+ * @returns JSON string.
+ */
+export function snapshotToJSON(snapshot: SimulationSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Parses a snapshot from JSON text.
+ * @param json - Text produced by snapshotToJSON().
+ * @returns The decoded snapshot.
+ */
+export function snapshotFromJSON(json: string): SimulationSnapshot {
+  let snapshot: SimulationSnapshot;
+  try {
+    snapshot = JSON.parse(json);
+  } catch (error) {
+    throw new SnapshotError(`Invalid snapshot JSON: ${error}`);
+  }
+
+  if (!snapshot || typeof snapshot !== "object") {
+    throw new SnapshotError("Snapshot JSON is not an object");
+  }
+  checkVersion(snapshot.version);
+  return snapshot;
+}
+
+/**
+ * Encodes a snapshot in the compact binary format.
+ *
+ * Layout (little-endian): u32 magic, u32 version, u32 header length,
+ * u32 node count, u32 edge count, u32 active node count, UTF-8 JSON header
+ * holding the scalar state, then typed columns:
+ * - nutrient grid: f32 per cell
+ * - nodes: u32 id, f64 x, y, z, resource, i32 depth, u8 growth type,
+ *   i32 colony id, f64 pressure, u32 connection count (-1 / 0 / NaN mark
+ *   absent metadata)
+ * - connections: u32 node ids, concatenated in node order
+ * - active nodes: u32 node ids
+ * - edges: u32 id, source, target, createdAt, f64 length, radius, flux, flow
+ * @param snapshot - The snapshot to encode.
+ * @returns Binary snapshot data.
+ */
+export function encodeSnapshot(snapshot: SimulationSnapshot): ArrayBuffer {
+  const { nodes, edges, activeNodes } = snapshot.network;
+  const header = new TextEncoder().encode(
+    JSON.stringify({
+      ...snapshot,
+      network: { ...snapshot.network, nodes: [], edges: [], activeNodes: [] },
+      environment: { ...snapshot.environment, nutrients: [] },
+    }),
+  );
+
+  const columns = new ColumnWriter();
+  columns.add("f32", snapshot.environment.nutrients);
+  columns.add(
+    "u32",
+    nodes.map((node) => node.id),
+  );
+  columns.add(
+    "f64",
+    nodes.map((node) => node.x),
+  );
+  columns.add(
+    "f64",
+    nodes.map((node) => node.y),
+  );
+  columns.add(
+    "f64",
+    nodes.map((node) => node.z),
+  );
+  columns.add(
+    "f64",
+    nodes.map((node) => node.resource),
+  );
+  columns.add(
+    "i32",
+    nodes.map((node) => node.depth ?? -1),
+  );
+  columns.add(
+    "u8",
+    nodes.map((node) => GROWTH_TYPE_CODES.indexOf(node.growthType)),
+  );
+  columns.add(
+    "i32",
+    nodes.map((node) => node.colonyId ?? -1),
+  );
+  columns.add(
+    "f64",
+    nodes.map((node) => node.pressure ?? NaN),
+  );
+  columns.add(
+    "u32",
+    nodes.map((node) => node.connections.length),
+  );
+  columns.add(
+    "u32",
+    nodes.flatMap((node) => node.connections),
+  );
+  columns.add("u32", activeNodes);
+  columns.add(
+    "u32",
+    edges.map((edge) => edge.id),
+  );
+  columns.add(
+    "u32",
+    edges.map((edge) => edge.source),
+  );
+  columns.add(
+    "u32",
+    edges.map((edge) => edge.target),
+  );
+  columns.add(
+    "u32",
+    edges.map((edge) => edge.createdAt),
+  );
+  columns.add(
+    "f64",
+    edges.map((edge) => edge.length),
+  );
+  columns.add(
+    "f64",
+    edges.map((edge) => edge.radius),
+  );
+  columns.add(
+    "f64",
+    edges.map((edge) => edge.flux),
+  );
+  columns.add(
+    "f64",
+    edges.map((edge) => edge.flow),
+  );
+
+  const columnOffset = BINARY_PREAMBLE_BYTES + header.length;
+  const buffer = new ArrayBuffer(columnOffset + columns.byteLength);
+
+  const view = new DataView(buffer);
+  view.setUint32(0, BINARY_MAGIC, true);
+  view.setUint32(4, snapshot.version, true);
+  view.setUint32(8, header.length, true);
+  view.setUint32(12, nodes.length, true);
+  view.setUint32(16, edges.length, true);
+  view.setUint32(20, activeNodes.length, true);
+  new Uint8Array(buffer, BINARY_PREAMBLE_BYTES, header.length).set(header);
+  columns.writeTo(view, columnOffset);
+
+  return buffer;
+}
+
+/**
+ * Decodes a snapshot from the compact binary format.
+ * @param buffer - Data produced by encodeSnapshot().
+ * @returns The decoded snapshot.
+ */
+export function decodeSnapshot(buffer: ArrayBuffer): SimulationSnapshot {
+  if (buffer.byteLength < BINARY_PREAMBLE_BYTES) {
+    throw new SnapshotError("Binary snapshot is truncated");
+  }
+
+  const view = new DataView(buffer);
+  if (view.getUint32(0, true) !== BINARY_MAGIC) {
+    throw new SnapshotError("Not a binary simulation snapshot");
+  }
+  checkVersion(view.getUint32(4, true));
+
+  const headerLength = view.getUint32(8, true);
+  const nodeCount = view.getUint32(12, true);
+  const edgeCount = view.getUint32(16, true);
+  const activeCount = view.getUint32(20, true);
+  if (BINARY_PREAMBLE_BYTES + headerLength > buffer.byteLength) {
+    throw new SnapshotError("Binary snapshot header is truncated");
+  }
+
+  const snapshot = snapshotFromJSON(
+    new TextDecoder().decode(
+      new Uint8Array(buffer, BINARY_PREAMBLE_BYTES, headerLength),
+    ),
+  );
+
+  const columns = new ColumnReader(view, BINARY_PREAMBLE_BYTES + headerLength);
+  const { cols, rows, layers } = snapshot.environment;
+  snapshot.environment.nutrients = columns.read("f32", cols * rows * layers);
+
+  const ids = columns.read("u32", nodeCount);
+  const xs = columns.read("f64", nodeCount);
+  const ys = columns.read("f64", nodeCount);
+  const zs = columns.read("f64", nodeCount);
+  const resources = columns.read("f64", nodeCount);
+  const depths = columns.read("i32", nodeCount);
+  const growthTypes = columns.read("u8", nodeCount);
+  const colonyIds = columns.read("i32", nodeCount);
+  const pressures = columns.read("f64", nodeCount);
+  const connectionCounts = columns.read("u32", nodeCount);
+  const connections = columns.read(
+    "u32",
+    connectionCounts.reduce((sum, count) => sum + count, 0),
+  );
+
+  let connectionOffset = 0;
+  snapshot.network.nodes = ids.map((id, i) => {
+    const node: NetworkNode = {
+      id,
+      x: xs[i],
+      y: ys[i],
+      z: zs[i],
+      resource: resources[i],
+      connections: connections.slice(
+        connectionOffset,
+        (connectionOffset += connectionCounts[i]),
+      ),
+    };
+    if (depths[i] >= 0) {
+      node.depth = depths[i];
+    }
+    const growthType = GROWTH_TYPE_CODES[growthTypes[i]];
+    if (growthType) {
+      node.growthType = growthType;
+    }
+    if (colonyIds[i] >= 0) {
+      node.colonyId = colonyIds[i];
+    }
+    if (!Number.isNaN(pressures[i])) {
+      node.pressure = pressures[i];
+    }
+    return node;
+  });
+  snapshot.network.activeNodes = columns.read("u32", activeCount);
+
+  const edgeIds = columns.read("u32", edgeCount);
+  const sources = columns.read("u32", edgeCount);
+  const targets = columns.read("u32", edgeCount);
+  const createdAt = columns.read("u32", edgeCount);
+  const lengths = columns.read("f64", edgeCount);
+  const radii = columns.read("f64", edgeCount);
+  const fluxes = columns.read("f64", edgeCount);
+  const flows = columns.read("f64", edgeCount);
+  snapshot.network.edges = edgeIds.map((id, i) => ({
+    id,
+    source: sources[i],
+    target: targets[i],
+    length: lengths[i],
+    createdAt: createdAt[i],
+    radius: radii[i],
+    flux: fluxes[i],
+    flow: flows[i],
+  }));
+
+  return snapshot;
+}
+
+type ColumnType = "u8" | "i32" | "u32" | "f32" | "f64";
+
+const COLUMN_BYTES: Record<ColumnType, number> = {
+  u8: 1,
+  i32: 4,
+  u32: 4,
+  f32: 4,
+  f64: 8,
+};
+
+// Index 0 marks nodes without a growth type
+const GROWTH_TYPE_CODES: (GrowthType | undefined)[] = [
+  undefined,
+  "main",
+  "secondary",
+];
+
+/**
+ * Collects typed columns and writes them back to back.
+ */
+class ColumnWriter {
+  private columns: { type: ColumnType; values: ArrayLike<number> }[] = [];
+  public byteLength = 0;
+
+  public add(type: ColumnType, values: ArrayLike<number>): void {
+    this.columns.push({ type, values });
+    this.byteLength += values.length * COLUMN_BYTES[type];
+  }
+
+  public writeTo(view: DataView, offset: number): void {
+    for (const { type, values } of this.columns) {
+      for (let i = 0; i < values.length; i++) {
+        switch (type) {
+          case "u8":
+            view.setUint8(offset, values[i]);
+            break;
+          case "i32":
+            view.setInt32(offset, values[i], true);
+            break;
+          case "u32":
+            view.setUint32(offset, values[i], true);
+            break;
+          case "f32":
+            view.setFloat32(offset, values[i], true);
+            break;
+          case "f64":
+            view.setFloat64(offset, values[i], true);
+            break;
+        }
+        offset += COLUMN_BYTES[type];
+      }
+    }
+  }
+}
+
+/**
+ * Reads typed columns in the order ColumnWriter wrote them.
+ */
+class ColumnReader {
+  constructor(
+    private view: DataView,
+    private offset: number,
+  ) {}
+
+  public read(type: ColumnType, count: number): number[] {
+    const size = COLUMN_BYTES[type];
+    if (this.offset + count * size > this.view.byteLength) {
+      throw new SnapshotError("Binary snapshot column data is truncated");
+    }
+
+    const values: number[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      switch (type) {
+        case "u8":
+          values[i] = this.view.getUint8(this.offset);
+          break;
+        case "i32":
+          values[i] = this.view.getInt32(this.offset, true);
+          break;
+        case "u32":
+          values[i] = this.view.getUint32(this.offset, true);
+          break;
+        case "f32":
+          values[i] = this.view.getFloat32(this.offset, true);
+          break;
+        case "f64":
+          values[i] = this.view.getFloat64(this.offset, true);
+          break;
+      }
+      this.offset += size;
+    }
+    return values;
+  }
+}
+
+/**
+ * Rejects environment states that are malformed or whose nutrient data
+ * does not fill their grid.
+ * @param environment - Environment state stored in the snapshot.
+ */
+function checkEnvironment(environment: EnvironmentState): void {
+  checkRecord(environment, "environment", ["width", "height"]);
+  const frame = checkRecord(environment.frame, "environment frame", [
+    "cellSize",
+  ]);
+  checkRecord(frame.origin, "environment frame origin", POINT_KEYS);
+  checkRecord(frame.extents, "environment frame extents", POINT_KEYS);
+  const { cols, rows, layers } = environment;
+  const nutrients = checkArray(environment.nutrients, "nutrient data");
+  if (![cols, rows, layers].every((n) => Number.isInteger(n) && n > 0)) {
+    throw new SnapshotError(
+      `Snapshot nutrient grid ${cols}x${rows}x${layers} is invalid`,
+    );
+  }
+  if (nutrients.length !== cols * rows * layers) {
+    throw new SnapshotError(
+      `Snapshot nutrient data length ${nutrients.length} does not match grid ${cols}x${rows}x${layers}`,
+    );
+  }
+}
+
+/**
+ * Rejects network states whose nodes or edges are malformed or refer to
+ * nodes that do not exist.
+ * @param network - Network state stored in the snapshot.
+ * @returns Ids of the snapshot's nodes.
+ */
+function checkNetwork(network: NetworkState): Set<number> {
+  checkRecord(network, "network", ["nextId", "nextEdgeId", "flowStep"]);
+  const nodes = checkArray(network.nodes, "nodes");
+  const nodeIds = new Set<number>();
+  for (const [index, node] of nodes.entries()) {
+    const { id, pressure } = checkRecord(node, `node ${index}`, NODE_KEYS);
+    if (nodeIds.has(id as number)) {
+      throw new SnapshotError(`Snapshot node id ${id} is duplicated`);
+    }
+    if (pressure !== undefined && !Number.isFinite(pressure)) {
+      throw new SnapshotError(`Snapshot node ${id} has an invalid pressure`);
+    }
+    nodeIds.add(id as number);
+  }
+
+  for (const node of network.nodes) {
+    checkNodeIds(node.connections, nodeIds, `node ${node.id} connection list`);
+  }
+  checkNodeIds(network.activeNodes, nodeIds, "active node list");
+
+  const edges = checkArray(network.edges, "edges");
+  const edgeIds = new Set<number>();
+  for (const [index, edge] of edges.entries()) {
+    const { id, source, target } = checkRecord(
+      edge,
+      `edge ${index}`,
+      EDGE_KEYS,
+    );
+    if (edgeIds.has(id as number)) {
+      throw new SnapshotError(`Snapshot edge id ${id} is duplicated`);
+    }
+    edgeIds.add(id as number);
+    checkNodeIds([source, target], nodeIds, `edge ${id}`);
+  }
+
+  return nodeIds;
+}
+
+/**
+ * Rejects simulation states whose tips, inocula or noise state are
+ * malformed, or whose tips refer to nodes that do not exist.
+ * @param simulation - Simulation state stored in the snapshot.
+ * @param nodeIds - Ids of the snapshot's network nodes.
+ */
+function checkSimulation(
+  simulation: SimulationState,
+  nodeIds: Set<number>,
+): void {
+  checkRecord(simulation, "simulation", [
+    "nextTipId",
+    "growthRadius",
+    "growthHeight",
+    "lastReplenishTime",
+    "frameCount",
+    "rngState",
+  ]);
+
+  for (const [index, tip] of checkArray(simulation.tips, "tips").entries()) {
+    const { growthType, nodeId } = checkRecord(tip, `tip ${index}`, TIP_KEYS);
+    if (growthType !== "main" && growthType !== "secondary") {
+      throw new SnapshotError(
+        `Snapshot tip ${index} has unknown growth type ${growthType}`,
+      );
+    }
+    if (nodeId !== undefined) {
+      checkNodeIds([nodeId], nodeIds, `tip ${index}`);
+    }
+  }
+
+  const inocula = checkArray(simulation.inocula, "inocula");
+  for (const [index, inoculum] of inocula.entries()) {
+    const { position } = checkRecord(inoculum, `inoculum ${index}`, [
+      "tipCount",
+      "resource",
+      "colonyId",
+    ]);
+    checkRecord(position, `inoculum ${index} position`, POINT_KEYS);
+  }
+
+  for (const entry of checkArray(simulation.perlinCache, "noise cache")) {
+    if (
+      !Array.isArray(entry) ||
+      typeof entry[0] !== "string" ||
+      typeof entry[1] !== "number"
+    ) {
+      throw new SnapshotError("Snapshot noise cache entry is malformed");
+    }
+  }
+
+  const permutation = checkArray(
+    simulation.perlinPermutation,
+    "noise permutation",
+  );
+  if (
+    permutation.length !== 256 ||
+    !permutation.every((value) => Number.isInteger(value))
+  ) {
+    throw new SnapshotError("Snapshot noise permutation is malformed");
+  }
+}
+
+// Fields each kind of snapshot record must hold as finite numbers
+const POINT_KEYS = ["x", "y", "z"] as const;
+const NODE_KEYS = ["id", "x", "y", "z", "resource"] as const;
+const EDGE_KEYS = [
+  "id",
+  "source",
+  "target",
+  "length",
+  "createdAt",
+  "radius",
+  "flux",
+  "flow",
+] as const;
+const TIP_KEYS = [
+  "id",
+  "x",
+  "y",
+  "z",
+  "angle",
+  "verticalAngle",
+  "life",
+  "depth",
+  "resource",
+  "sinceBranch",
+  "colonyId",
+] as const;
+
+/**
+ * Checks that a value is an object holding finite numbers under the given keys.
+ * @param value - Value to check.
+ * @param what - Description of the value for error messages.
+ * @param numberKeys - Keys that must hold finite numbers.
+ * @returns The value, typed as a record.
+ */
+function checkRecord(
+  value: unknown,
+  what: string,
+  numberKeys: readonly string[],
+): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SnapshotError(`Snapshot ${what} is not an object`);
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of numberKeys) {
+    if (!Number.isFinite(record[key])) {
+      throw new SnapshotError(`Snapshot ${what} has no numeric ${key}`);
+    }
+  }
+  return record;
+}
+
+/**
+ * Checks that a value is an array.
+ * @param value - Value to check.
+ * @param what - Description of the value for error messages.
+ * @returns The value, typed as an array.
+ */
+function checkArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new SnapshotError(`Snapshot ${what} is not an array`);
+  }
+  return value;
+}
+
+/**
+ * Checks that every value of a list is the id of an existing node.
+ * @param ids - Values to check.
+ * @param nodeIds - Ids of the snapshot's nodes.
+ * @param what - Owner of the ids, for error messages.
+ */
+function checkNodeIds(ids: unknown, nodeIds: Set<number>, what: string): void {
+  for (const id of checkArray(ids, what)) {
+    if (!nodeIds.has(id as number)) {
+      throw new SnapshotError(`Snapshot ${what} refers to missing node ${id}`);
+    }
+  }
+}
+
+/**
+ * Rejects snapshots written by an unknown format version.
+ * @param version - Version stored in the snapshot.
+ */
+function checkVersion(version: number): void {
+  if (version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(
+      `Unsupported snapshot version ${version} (expected ${SNAPSHOT_VERSION})`,
+    );
+  }
+}
@@ -0,0 +1,485 @@
+// src/spatialIndex.ts
+
+/**
+ * spatialIndex.ts
+ *
+ * Persistent uniform-grid index over 3D points and the segments between
+ * them. Points can be inserted, moved and removed incrementally; segments
+ * are registered in every cell their bounding box overlaps, so they may be
+ * any length. Supports radius, nearest-point and nearest-segment queries.
+ */
+
+export interface PointHit {
+  id: number;
+  distance: number;
+}
+
+export interface SegmentHit {
+  a: number; // Point ID at the start of the segment
+  b: number; // Point ID at the end of the segment
+  distance: number;
+  t: number; // Position of the closest point along the segment (0 at a, 1 at b)
+}
+
+interface IndexedPoint {
+  x: number;
+  y: number;
+  z: number;
+  cell: number;
+}
+
+interface IndexedSegment {
+  a: number;
+  b: number;
+  cells: number[];
+}
+
+// Cell coordinates are offset into [0, CELL_RANGE) and packed into one
+// safe integer, allowing +/-CELL_OFFSET cells along each axis
+const CELL_OFFSET = 1 << 15;
+const CELL_RANGE = 1 << 16;
+
+export class SpatialIndex {
+  private points: Map<number, IndexedPoint> = new Map();
+  private pointCells: Map<number, number[]> = new Map(); // Point IDs by cell
+  private segments: Map<number, IndexedSegment> = new Map();
+  private segmentCells: Map<number, number[]> = new Map(); // Segment IDs by cell
+  private segmentIds: Map<string, number> = new Map(); // Keyed by getPairKey()
+  private pointSegments: Map<number, Set<number>> = new Map();
+  private nextSegmentId: number = 0;
+  // Bounds of every cell a point has occupied, limiting nearest() searches
+  private minCell = { x: Infinity, y: Infinity, z: Infinity };
+  private maxCell = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+  /**
+   * Creates an empty index.
+   * @param cellSize - Edge length of each grid cell.
+   */
+  constructor(private cellSize: number) {}
+
+  /**
+   * Number of indexed points.
+   */
+  public get size(): number {
+    return this.points.size;
+  }
+
+  /**
+   * Adds a point, or moves it if the ID is already indexed.
+   * @param id - Caller-defined point ID.
+   * @param x - X-coordinate.
+   * @param y - Y-coordinate.
+   * @param z - Z-coordinate.
+   */
+  public insertPoint(id: number, x: number, y: number, z: number): void {
+    const cell = this.getCellKey(x, y, z);
+    this.extendBounds(x, y, z);
+    const existing = this.points.get(id);
+
+    if (existing) {
+      if (existing.cell !== cell) {
+        removeFromCell(this.pointCells, existing.cell, id);
+        addToCell(this.pointCells, cell, id);
+      }
+      existing.x = x;
+      existing.y = y;
+      existing.z = z;
+      existing.cell = cell;
+      return;
+    }
+
+    this.points.set(id, { x, y, z, cell });
+    addToCell(this.pointCells, cell, id);
+  }
+
+  /**
+   * Removes a point and every segment attached to it.
+   * @param id - ID of the point to remove.
+   */
+  public removePoint(id: number): void {
+    const point = this.points.get(id);
+    if (!point) {
+      return;
+    }
+
+    for (const segmentId of this.pointSegments.get(id) ?? []) {
+      const segment = this.segments.get(segmentId)!;
+      this.removeSegment(segment.a, segment.b);
+    }
+
+    removeFromCell(this.pointCells, point.cell, id);
+    this.points.delete(id);
+    this.pointSegments.delete(id);
+  }
+
+  /**
+   * Adds a segment between two indexed points. Segments are placed using
+   * the endpoint positions at insertion time, so they suit static points.
+   * @param a - ID of the first endpoint.
+   * @param b - ID of the second endpoint.
+   */
+  public insertSegment(a: number, b: number): void {
+    const start = this.points.get(a);
+    const end = this.points.get(b);
+    const pairKey = getPairKey(a, b);
+    if (!start || !end || a === b || this.segmentIds.has(pairKey)) {
+      return;
+    }
+
+    const id = this.nextSegmentId++;
+    const cells: number[] = [];
+    const [minX, maxX] = this.getCellRange(start.x, end.x);
+    const [minY, maxY] = this.getCellRange(start.y, end.y);
+    const [minZ, maxZ] = this.getCellRange(start.z, end.z);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        for (let cz = minZ; cz <= maxZ; cz++) {
+          const cell = packCell(cx, cy, cz);
+          cells.push(cell);
+          addToCell(this.segmentCells, cell, id);
+        }
+      }
+    }
+
+    this.segments.set(id, { a, b, cells });
+    this.segmentIds.set(pairKey, id);
+    for (const endpoint of [a, b]) {
+      if (!this.pointSegments.has(endpoint)) {
+        this.pointSegments.set(endpoint, new Set());
+      }
+      this.pointSegments.get(endpoint)!.add(id);
+    }
+  }
+
+  /**
+   * Removes the segment between two points, if indexed.
+   * @param a - ID of one endpoint.
+   * @param b - ID of the other endpoint.
+   */
+  public removeSegment(a: number, b: number): void {
+    const pairKey = getPairKey(a, b);
+    const id = this.segmentIds.get(pairKey);
+    if (id === undefined) {
+      return;
+    }
+
+    const segment = this.segments.get(id)!;
+    for (const cell of segment.cells) {
+      removeFromCell(this.segmentCells, cell, id);
+    }
+    this.segments.delete(id);
+    this.segmentIds.delete(pairKey);
+    this.pointSegments.get(segment.a)?.delete(id);
+    this.pointSegments.get(segment.b)?.delete(id);
+  }
+
+  /**
+   * Removes all points and segments.
+   */
+  public clear(): void {
+    this.points.clear();
+    this.pointCells.clear();
+    this.segments.clear();
+    this.segmentCells.clear();
+    this.segmentIds.clear();
+    this.pointSegments.clear();
+    this.nextSegmentId = 0;
+    this.minCell = { x: Infinity, y: Infinity, z: Infinity };
+    this.maxCell = { x: -Infinity, y: -Infinity, z: -Infinity };
+  }
+
+  /**
+   * Finds every point within a radius.
+   * @param x - X-coordinate of the query position.
+   * @param y - Y-coordinate of the query position.
+   * @param z - Z-coordinate of the query position.
+   * @param radius - Maximum distance (inclusive).
+   * @param filter - Optional predicate; points it rejects are skipped.
+   * @returns IDs of the matching points.
+   */
+  public queryRadius(
+    x: number,
+    y: number,
+    z: number,
+    radius: number,
+    filter?: (id: number) => boolean,
+  ): number[] {
+    const result: number[] = [];
+    this.forEachCell(this.pointCells, x, y, z, radius, (id) => {
+      const point = this.points.get(id)!;
+      if (
+        Math.hypot(point.x - x, point.y - y, point.z - z) <= radius &&
+        (!filter || filter(id))
+      ) {
+        result.push(id);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Finds the nearest point, searching outward ring by ring.
+   * @param x - X-coordinate of the query position.
+   * @param y - Y-coordinate of the query position.
+   * @param z - Z-coordinate of the query position.
+   * @param maxDistance - Maximum search distance (inclusive).
+   * @param filter - Optional predicate; points it rejects are skipped.
+   * @returns The nearest point, or undefined if none is in range.
+   */
+  public nearest(
+    x: number,
+    y: number,
+    z: number,
+    maxDistance: number = Infinity,
+    filter?: (id: number) => boolean,
+  ): PointHit | undefined {
+    if (this.points.size === 0) {
+      return undefined;
+    }
+
+    let best: PointHit | undefined;
+    const cx = Math.floor(x / this.cellSize);
+    const cy = Math.floor(y / this.cellSize);
+    const cz = Math.floor(z / this.cellSize);
+    const maxRing = Math.min(
+      Math.ceil(maxDistance / this.cellSize),
+      Math.max(
+        cx - this.minCell.x,
+        this.maxCell.x - cx,
+        cy - this.minCell.y,
+        this.maxCell.y - cy,
+        cz - this.minCell.z,
+        this.maxCell.z - cz,
+      ),
+    );
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Visit only the shell of cells at Chebyshev distance `ring`
+      for (let dx = -ring; dx <= ring; dx++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          for (let dz = -ring; dz <= ring; dz++) {
+            if (Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) !== ring) {
+              continue;
+            }
+            const cell = this.pointCells.get(
+              packCell(cx + dx, cy + dy, cz + dz),
+            );
+            for (const id of cell ?? []) {
+              const point = this.points.get(id)!;
+              const distance = Math.hypot(
+                point.x - x,
+                point.y - y,
+                point.z - z,
+              );
+              if (
+                distance <= maxDistance &&
+                (!best || distance < best.distance) &&
+                (!filter || filter(id))
+              ) {
+                best = { id, distance };
+              }
+            }
+          }
+        }
+      }
+
+      // Every unvisited cell is at least `ring` cells away
+      if (best && best.distance <= ring * this.cellSize) {
+        break;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Finds the segment closest to a position.
+   * @param x - X-coordinate of the query position.
+   * @param y - Y-coordinate of the query position.
+   * @param z - Z-coordinate of the query position.
+   * @param maxDistance - Maximum distance (exclusive).
+   * @param filter - Optional predicate on the endpoint IDs; segments it rejects are skipped.
+   * @returns The nearest segment, or undefined if none is in range.
+   */
+  public nearestSegment(
+    x: number,
+    y: number,
+    z: number,
+    maxDistance: number,
+    filter?: (a: number, b: number) => boolean,
+  ): SegmentHit | undefined {
+    let best: SegmentHit | undefined;
+    const visited: Set<number> = new Set();
+
+    this.forEachCell(this.segmentCells, x, y, z, maxDistance, (id) => {
+      if (visited.has(id)) {
+        return;
+      }
+      visited.add(id);
+
+      const segment = this.segments.get(id)!;
+      const { distance, t } = distanceToSegment(
+        x,
+        y,
+        z,
+        this.points.get(segment.a)!,
+        this.points.get(segment.b)!,
+      );
+      if (
+        distance < maxDistance &&
+        (!best || distance < best.distance) &&
+        (!filter || filter(segment.a, segment.b))
+      ) {
+        best = { a: segment.a, b: segment.b, distance, t };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Calls a visitor for every entry of the cells overlapping a query sphere.
+   */
+  private forEachCell(
+    cells: Map<number, number[]>,
+    x: number,
+    y: number,
+    z: number,
+    radius: number,
+    visit: (id: number) => void,
+  ): void {
+    const [minX, maxX] = this.getCellRange(x - radius, x + radius);
+    const [minY, maxY] = this.getCellRange(y - radius, y + radius);
+    const [minZ, maxZ] = this.getCellRange(z - radius, z + radius);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        for (let cz = minZ; cz <= maxZ; cz++) {
+          const cell = cells.get(packCell(cx, cy, cz));
+          if (cell) {
+            for (const id of cell) {
+              visit(id);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Grows the occupied-cell bounds to include a position.
+   */
+  private extendBounds(x: number, y: number, z: number): void {
+    const cx = Math.floor(x / this.cellSize);
+    const cy = Math.floor(y / this.cellSize);
+    const cz = Math.floor(z / this.cellSize);
+    this.minCell.x = Math.min(this.minCell.x, cx);
+    this.minCell.y = Math.min(this.minCell.y, cy);
+    this.minCell.z = Math.min(this.minCell.z, cz);
+    this.maxCell.x = Math.max(this.maxCell.x, cx);
+    this.maxCell.y = Math.max(this.maxCell.y, cy);
+    this.maxCell.z = Math.max(this.maxCell.z, cz);
+  }
+
+  /**
+   * Gets the inclusive range of cell coordinates spanned by two values.
+   */
+  private getCellRange(a: number, b: number): [number, number] {
+    return [
+      Math.floor(Math.min(a, b) / this.cellSize),
+      Math.floor(Math.max(a, b) / this.cellSize),
+    ];
+  }
+
+  /**
+   * Gets the packed key of the cell containing a position.
+   */
+  private getCellKey(x: number, y: number, z: number): number {
+    return packCell(
+      Math.floor(x / this.cellSize),
+      Math.floor(y / this.cellSize),
+      Math.floor(z / this.cellSize),
+    );
+  }
+}
+
+/**
+ * Packs integer cell coordinates into a single numeric key.
+ */
+function packCell(cx: number, cy: number, cz: number): number {
+  return (
+    ((cx + CELL_OFFSET) * CELL_RANGE + (cy + CELL_OFFSET)) * CELL_RANGE +
+    (cz + CELL_OFFSET)
+  );
+}
+
+/**
+ * Builds an order-independent key for a pair of point IDs.
+ */
+function getPairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+function addToCell(cells: Map<number, number[]>, cell: number, id: number) {
+  const entries = cells.get(cell);
+  if (entries) {
+    entries.push(id);
+  } else {
+    cells.set(cell, [id]);
+  }
+}
+
+function removeFromCell(
+  cells: Map<number, number[]>,
+  cell: number,
+  id: number,
+) {
+  const entries = cells.get(cell);
+  if (!entries) {
+    return;
+  }
+  const index = entries.indexOf(id);
+  if (index !== -1) {
+    entries.splice(index, 1);
+  }
+  if (entries.length === 0) {
+    cells.delete(cell);
+  }
+}
+
+/**
+ * Computes the distance from a position to the segment between two points.
+ * @returns The distance and the segment parameter t of the closest point.
+ */
+function distanceToSegment(
+  x: number,
+  y: number,
+  z: number,
+  a: { x: number; y: number; z: number },
+  b: { x: number; y: number; z: number },
+): { distance: number; t: number } {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const abZ = b.z - a.z;
+  const lengthSquared = abX * abX + abY * abY + abZ * abZ;
+  const t =
+    lengthSquared > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            ((x - a.x) * abX + (y - a.y) * abY + (z - a.z) * abZ) /
+              lengthSquared,
+          ),
+        )
+      : 0;
+
+  return {
+    distance: Math.hypot(
+      a.x + abX * t - x,
+      a.y + abY * t - y,
+      a.z + abZ * t - z,
+    ),
+    t,
+  };
+}
@@ -0,0 +1,226 @@
+// src/transport.ts
+
+/**
+ * transport.ts
+ *
+ * Hydraulic model of translocation along hyphae. Every edge is a tube
+ * whose conductance follows Hagen–Poiseuille; node pressures satisfy
+ * Kirchhoff's current law between nodes held at fixed pressure (sources
+ * and sinks), and the resulting edge fluxes carry resource through the
+ * network.
+ */
+
+export interface TransportEdge {
+  source: number;
+  target: number;
+  conductance: number; // Flux per unit pressure difference
+}
+
+export interface PressureSolution {
+  pressures: Map<number, number>; // Only nodes connected to a fixed node
+  iterations: number;
+  converged: boolean; // Otherwise pressures hold the last iterate
+}
+
+// Viscosity of the cytoplasm, in simulation units
+const CYTOPLASM_VISCOSITY = 1;
+
+// Shortest edge length used for conductance, so coincident nodes (e.g.
+// the root nodes of one inoculum) do not form infinitely conductive edges
+const MIN_CONDUCTING_LENGTH = 0.1;
+
+// Conjugate gradient stops at this relative residual or iteration count;
+// warm starts let a solve that runs out of iterations resume next call
+const SOLVER_TOLERANCE = 1e-8;
+const SOLVER_MAX_ITERATIONS = 100;
+
+/**
+ * Hagen–Poiseuille conductance of a cylindrical hypha: pi r^4 / (8 mu L).
+ * @param radius - Inner radius of the hypha.
+ * @param length - Length of the hypha.
+ * @returns The hydraulic conductance.
+ */
+export function poiseuilleConductance(radius: number, length: number): number {
+  return (
+    (Math.PI * radius ** 4) /
+    (8 * CYTOPLASM_VISCOSITY * Math.max(length, MIN_CONDUCTING_LENGTH))
+  );
+}
+
+/**
+ * Solves for node pressures given the pressures of the fixed nodes. The
+ * remaining nodes conserve flux, which gives a sparse symmetric positive
+ * definite system (the graph Laplacian reduced to the free nodes), solved
+ * with Jacobi-preconditioned conjugate gradient. Free nodes with no path
+ * to a fixed node have no defined pressure and are left out, and regions
+ * whose fixed neighbours all share one pressure take it without solving.
+ * @param edges - Edges of the network.
+ * @param fixed - Pressure of every source and sink node.
+ * @param initial - Starting guess for free nodes, e.g. the previous
+ * solution; nodes without one start at zero.
+ * @returns Pressures of the fixed nodes and every free node connected to one.
+ */
+export function solvePressures(
+  edges: TransportEdge[],
+  fixed: Map<number, number>,
+  initial: Map<number, number> = new Map(),
+): PressureSolution {
+  const adjacency: Map<number, { id: number; conductance: number }[]> =
+    new Map();
+  const link = (a: number, b: number, conductance: number) => {
+    if (!adjacency.has(a)) {
+      adjacency.set(a, []);
+    }
+    adjacency.get(a)!.push({ id: b, conductance });
+  };
+  for (const edge of edges) {
+    if (edge.source !== edge.target && edge.conductance > 0) {
+      link(edge.source, edge.target, edge.conductance);
+      link(edge.target, edge.source, edge.conductance);
+    }
+  }
+
+  // Index the free nodes reachable from a fixed node, one connected
+  // region at a time; regions bounded by a single pressure carry no flux
+  const pressures = new Map(fixed);
+  const index: Map<number, number> = new Map();
+  const free: number[] = [];
+  for (const fixedId of fixed.keys()) {
+    for (const { id: start } of adjacency.get(fixedId) ?? []) {
+      if (fixed.has(start) || pressures.has(start) || index.has(start)) {
+        continue;
+      }
+
+      const region = [start];
+      const seen = new Set(region);
+      const boundary = new Set<number>();
+      for (let i = 0; i < region.length; i++) {
+        for (const { id } of adjacency.get(region[i])!) {
+          const pressure = fixed.get(id);
+          if (pressure !== undefined) {
+            boundary.add(pressure);
+          } else if (!seen.has(id)) {
+            seen.add(id);
+            region.push(id);
+          }
+        }
+      }
+
+      if (boundary.size === 1) {
+        const [pressure] = boundary;
+        for (const id of region) {
+          pressures.set(id, pressure);
+        }
+      } else {
+        for (const id of region) {
+          index.set(id, free.length);
+          free.push(id);
+        }
+      }
+    }
+  }
+
+  // Assemble A p = b: the diagonal, the free-free couplings and the flux
+  // each free node receives from its fixed neighbours
+  const n = free.length;
+  const diagonal = new Float64Array(n);
+  const b = new Float64Array(n);
+  const rows: { column: number; conductance: number }[][] = [];
+  for (let i = 0; i < n; i++) {
+    const row: { column: number; conductance: number }[] = [];
+    for (const { id, conductance } of adjacency.get(free[i])!) {
+      diagonal[i] += conductance;
+      const pressure = fixed.get(id);
+      if (pressure !== undefined) {
+        b[i] += conductance * pressure;
+      } else {
+        row.push({ column: index.get(id)!, conductance });
+      }
+    }
+    rows.push(row);
+  }
+
+  const multiply = (x: Float64Array, out: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      let sum = diagonal[i] * x[i];
+      for (const { column, conductance } of rows[i]) {
+        sum -= conductance * x[column];
+      }
+      out[i] = sum;
+    }
+  };
+
+  // Preconditioned conjugate gradient from the initial guess
+  const p = Float64Array.from(free, (id) => initial.get(id) ?? 0);
+  const r = new Float64Array(n);
+  const z = new Float64Array(n);
+  const direction = new Float64Array(n);
+  const product = new Float64Array(n);
+  multiply(p, product);
+  for (let i = 0; i < n; i++) {
+    r[i] = b[i] - product[i];
+    z[i] = r[i] / diagonal[i];
+    direction[i] = z[i];
+  }
+  let rz = dot(r, z);
+  const threshold = SOLVER_TOLERANCE * Math.sqrt(dot(b, b));
+
+  let iterations = 0;
+  let converged = Math.sqrt(dot(r, r)) <= threshold;
+  while (!converged && iterations < SOLVER_MAX_ITERATIONS) {
+    multiply(direction, product);
+    const step = rz / dot(direction, product);
+    for (let i = 0; i < n; i++) {
+      p[i] += step * direction[i];
+      r[i] -= step * product[i];
+    }
+    iterations++;
+
+    converged = Math.sqrt(dot(r, r)) <= threshold;
+    if (converged) {
+      break;
+    }
+
+    for (let i = 0; i < n; i++) {
+      z[i] = r[i] / diagonal[i];
+    }
+    const nextRz = dot(r, z);
+    const beta = nextRz / rz;
+    rz = nextRz;
+    for (let i = 0; i < n; i++) {
+      direction[i] = z[i] + beta * direction[i];
+    }
+  }
+
+  free.forEach((id, i) => pressures.set(id, p[i]));
+  return { pressures, iterations, converged };
+}
+
+/**
+ * Computes the flux along each edge from the node pressures.
+ * @param edges - Edges of the network.
+ * @param pressures - Node pressures from solvePressures().
+ * @returns Flux per edge, positive from source to target; zero where a
+ * pressure is undefined.
+ */
+export function computeEdgeFluxes(
+  edges: TransportEdge[],
+  pressures: Map<number, number>,
+): number[] {
+  return edges.map((edge) => {
+    const from = pressures.get(edge.source);
+    const to = pressures.get(edge.target);
+    if (from === undefined || to === undefined) {
+      return 0;
+    }
+    return edge.conductance * (from - to);
+  });
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,170 @@
+// src/worldFrame.ts
+
+import { Config, config as globalConfig } from "./constants.js";
+import { Point3D } from "./simulation.js";
+
+/**
+ * worldFrame.ts
+ *
+ * Shared mapping between world coordinates (where tips grow, centred on
+ * the inoculum at the origin) and the cells of the nutrient grid, so the
+ * simulation, environment and renderers agree on where things are.
+ */
+
+/**
+ * Serializable description of a world frame, used by snapshots.
+ */
+export interface WorldFrameState {
+  origin: Point3D; // World position of the grid's minimum corner
+  extents: Point3D; // Size of the grid in world units along each axis
+  cellSize: number;
+}
+
+/**
+ * Radius of the spherical growth volume for a canvas size.
+ * @param width - Width of the canvas.
+ * @param height - Height of the canvas.
+ * @param config - Config providing GROWTH_RADIUS_FACTOR.
+ * @returns The growth radius in world units.
+ */
+export function growthRadiusFor(
+  width: number,
+  height: number,
+  config: Config = globalConfig,
+): number {
+  return Math.min(width, height) * config.GROWTH_RADIUS_FACTOR;
+}
+
+/**
+ * Axis-aligned box of world space divided into cubic grid cells.
+ */
+export class WorldFrame {
+  public readonly cols: number;
+  public readonly rows: number;
+  public readonly layers: number;
+
+  /**
+   * @param origin - World position of the grid's minimum corner.
+   * @param extents - Size of the grid in world units along each axis.
+   * @param cellSize - Edge length of one grid cell in world units.
+   */
+  constructor(
+    public readonly origin: Point3D,
+    public readonly extents: Point3D,
+    public readonly cellSize: number,
+  ) {
+    this.cols = Math.max(1, Math.ceil(extents.x / cellSize));
+    this.rows = Math.max(1, Math.ceil(extents.y / cellSize));
+    this.layers = Math.max(1, Math.ceil(extents.z / cellSize));
+  }
+
+  /**
+   * Creates the frame enclosing the growth sphere for a canvas size,
+   * centred on the origin where the colony is inoculated.
+   * @param width - Width of the canvas.
+   * @param height - Height of the canvas.
+   * @param config - Config providing the growth volume and cell size.
+   * @returns The world frame.
+   */
+  public static forGrowthVolume(
+    width: number,
+    height: number,
+    config: Config = globalConfig,
+  ): WorldFrame {
+    const radius = growthRadiusFor(width, height, config);
+    const halfDepth = radius * config.GROWTH_HEIGHT_FACTOR;
+    return new WorldFrame(
+      { x: -radius, y: -radius, z: -halfDepth },
+      { x: 2 * radius, y: 2 * radius, z: 2 * halfDepth },
+      config.ENV_GRID_CELL_SIZE,
+    );
+  }
+
+  /**
+   * Recreates a frame from its serialized state.
+   * @param state - State obtained from toState().
+   * @returns The world frame.
+   */
+  public static fromState(state: WorldFrameState): WorldFrame {
+    return new WorldFrame(
+      { ...state.origin },
+      { ...state.extents },
+      state.cellSize,
+    );
+  }
+
+  /**
+   * World position of the centre of the frame.
+   */
+  public get center(): Point3D {
+    return {
+      x: this.origin.x + this.extents.x / 2,
+      y: this.origin.y + this.extents.y / 2,
+      z: this.origin.z + this.extents.z / 2,
+    };
+  }
+
+  /**
+   * Converts a world position to continuous grid coordinates, where cell
+   * (i, j, k) spans [i, i + 1) x [j, j + 1) x [k, k + 1).
+   * @returns Grid coordinates; they may lie outside the grid.
+   */
+  public worldToGrid(x: number, y: number, z: number): Point3D {
+    return {
+      x: (x - this.origin.x) / this.cellSize,
+      y: (y - this.origin.y) / this.cellSize,
+      z: (z - this.origin.z) / this.cellSize,
+    };
+  }
+
+  /**
+   * Finds the grid cell containing a world position.
+   * @returns Integer cell coordinates; they may lie outside the grid.
+   */
+  public worldToCell(x: number, y: number, z: number): Point3D {
+    const grid = this.worldToGrid(x, y, z);
+    return {
+      x: Math.floor(grid.x),
+      y: Math.floor(grid.y),
+      z: Math.floor(grid.z),
+    };
+  }
+
+  /**
+   * World position of the centre of a grid cell.
+   * @returns The cell centre in world coordinates.
+   */
+  public cellToWorld(cellX: number, cellY: number, cellZ: number): Point3D {
+    return {
+      x: this.origin.x + (cellX + 0.5) * this.cellSize,
+      y: this.origin.y + (cellY + 0.5) * this.cellSize,
+      z: this.origin.z + (cellZ + 0.5) * this.cellSize,
+    };
+  }
+
+  /**
+   * Checks whether grid cell coordinates lie inside the grid.
+   */
+  public containsCell(cellX: number, cellY: number, cellZ: number): boolean {
+    return (
+      cellX >= 0 &&
+      cellX < this.cols &&
+      cellY >= 0 &&
+      cellY < this.rows &&
+      cellZ >= 0 &&
+      cellZ < this.layers
+    );
+  }
+
+  /**
+   * Captures the frame for serialization.
+   * @returns Origin, extents and cell size.
+   */
+  public toState(): WorldFrameState {
+    return {
+      origin: { ...this.origin },
+      extents: { ...this.extents },
+      cellSize: this.cellSize,
+    };
+  }
+}
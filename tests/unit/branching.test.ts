@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  BranchContext,
+  LegacyBranchingModel,
+  NutrientBranchingModel,
+  createBranchingModel,
+} from "../../src/branching";
+import { HyphaTip } from "../../src/simulation";
+import { Random } from "../../src/random";
+import { config } from "../../src/constants";
+
+// Store original config
+const originalConfig = { ...config };
+
+function makeTip(overrides: Partial<HyphaTip> = {}): HyphaTip {
+  return {
+    id: 0,
+    x: 0,
+    y: 0,
+    z: 0,
+    angle: 0,
+    verticalAngle: 0,
+    life: config.BASE_LIFE,
+    depth: 0,
+    growthType: "main",
+    resource: config.INITIAL_RESOURCE_PER_TIP,
+    sinceBranch: 0,
+    ...overrides,
+  };
+}
+
+function makeContext(
+  tip: HyphaTip,
+  nutrientLevel: number,
+  nearbyTips: number = 0,
+): BranchContext {
+  return { tip, nutrientLevel, countNearbyTips: () => nearbyTips };
+}
+
+// Fraction of decisions that branch over many draws
+function branchRate(
+  model: NutrientBranchingModel,
+  context: BranchContext,
+): number {
+  const rng = new Random(7);
+  let branches = 0;
+  for (let i = 0; i < 2000; i++) {
+    if (model.decide(context, rng)) {
+      branches++;
+    }
+  }
+  return branches / 2000;
+}
+
+describe("Branching models", () => {
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+  });
+
+  it("should create models by name", () => {
+    expect(createBranchingModel("legacy")).toBeInstanceOf(LegacyBranchingModel);
+    expect(createBranchingModel("nutrient")).toBeInstanceOf(
+      NutrientBranchingModel,
+    );
+  });
+
+  describe("legacy", () => {
+    it("should fan out lateral branches in proportion to tip resource", () => {
+      config.BRANCH_CHANCE = 1;
+      const model = new LegacyBranchingModel();
+
+      expect(model.decide(makeContext(makeTip(), 0), new Random(1))).toEqual({
+        type: "lateral",
+        count: Math.min(config.SECONDARY_FAN_COUNT, 3),
+      });
+      expect(
+        model.decide(makeContext(makeTip({ resource: 0 }), 0), new Random(1)),
+      ).toBeNull();
+    });
+
+    it("should stop branching at the maximum depth", () => {
+      config.BRANCH_CHANCE = 1;
+      const rng = new Random(1);
+      const tip = makeTip({ depth: config.MAX_BRANCH_DEPTH });
+
+      expect(
+        new LegacyBranchingModel().decide(makeContext(tip, 0), rng),
+      ).toBeNull();
+      // No random number is drawn for tips that cannot branch
+      expect(rng.getState()).toBe(new Random(1).getState());
+    });
+  });
+
+  describe("nutrient", () => {
+    beforeEach(() => {
+      config.BRANCH_CHANCE = 0.5;
+      config.BRANCH_INTERVAL = 3;
+      config.BRANCH_NUTRIENT_SATURATION = 50;
+      config.APICAL_DOMINANCE_STRENGTH = 0.5;
+    });
+
+    it("should not branch before the branch interval has grown", () => {
+      const model = new NutrientBranchingModel();
+      const tip = makeTip({ sinceBranch: 2.9 });
+
+      expect(branchRate(model, makeContext(tip, 1000))).toBe(0);
+    });
+
+    it("should branch more often in richer substrate", () => {
+      const model = new NutrientBranchingModel();
+      const tip = makeTip({ sinceBranch: 3 });
+
+      const poor = branchRate(model, makeContext(tip, 5));
+      const rich = branchRate(model, makeContext(tip, 500));
+
+      expect(poor).toBeCloseTo((0.5 * 5) / 55, 1);
+      expect(rich).toBeCloseTo((0.5 * 500) / 550, 1);
+    });
+
+    it("should suppress branching near other tips", () => {
+      const model = new NutrientBranchingModel();
+      const tip = makeTip({ sinceBranch: 3 });
+
+      const alone = branchRate(model, makeContext(tip, 100));
+      const crowded = branchRate(model, makeContext(tip, 100, 6));
+
+      expect(crowded).toBeLessThan(alone / 2);
+    });
+
+    it("should choose apical splits by the configured share", () => {
+      config.BRANCH_CHANCE = 1;
+      config.APICAL_BRANCH_FRACTION = 1;
+      const tip = makeTip({ sinceBranch: 3 });
+
+      expect(
+        new NutrientBranchingModel().decide(
+          makeContext(tip, 1e9),
+          new Random(3),
+        ),
+      ).toEqual({ type: "apical", count: 1 });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AnyParameter,
+  ConfigValidationError,
+  applyConfig,
+  configFromURLParams,
+  defaultConfig,
+  getChangedKeys,
+  getConfigKeys,
+  getParameterSchema,
+  needsReset,
+  validateConfig,
+} from "../../src/configSchema";
+import { PRESETS } from "../../src/presets";
+import { config } from "../../src/constants";
+
+// Store original config
+const originalConfig = { ...config };
+
+// Issues reported for the given values, or none if they are valid
+function issuesOf(values: unknown): string[] {
+  try {
+    validateConfig(values);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    return (error as ConfigValidationError).issues;
+  }
+}
+
+describe("configSchema", () => {
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+  });
+
+  it("should build the default config from the schema", () => {
+    expect(defaultConfig()).toEqual(originalConfig);
+    expect(getConfigKeys()).toEqual(Object.keys(originalConfig));
+  });
+
+  it("should leave tropisms and nutrient branching to presets", () => {
+    expect(defaultConfig()).toMatchObject({
+      CHEMOTROPISM_STRENGTH: 0,
+      AUTOTROPISM_STRENGTH: 0,
+      BRANCHING_MODEL: "legacy",
+    });
+  });
+
+  it("should describe every parameter with defaults inside its bounds", () => {
+    for (const key of getConfigKeys()) {
+      const schema: AnyParameter = getParameterSchema(key);
+      expect(schema.description, key).not.toBe("");
+      if (schema.type === "number") {
+        expect(schema.min, key).toBeLessThanOrEqual(schema.max);
+        expect(schema.step, key).toBeGreaterThan(0);
+      }
+    }
+    expect(() => validateConfig(defaultConfig())).not.toThrow();
+  });
+
+  it("should accept every preset", () => {
+    for (const preset of PRESETS) {
+      expect(issuesOf(preset.values), preset.name).toEqual([]);
+    }
+  });
+
+  it("should reject impossible values with one issue per key", () => {
+    const issues = issuesOf({
+      ENV_GRID_CELL_SIZE: 0,
+      MAIN_BRANCH_COUNT: 2.5,
+      BRANCH_CHANCE: "high",
+      ENABLE_3D: 1,
+      BRANCHING_MODEL: "random",
+      STEP_SIZE: NaN,
+      GROWTH_SPEED: 1,
+    });
+
+    expect(issues).toEqual([
+      "ENV_GRID_CELL_SIZE: 0 is outside the range [0.5, 5]",
+      "MAIN_BRANCH_COUNT: expected an integer, got 2.5",
+      'BRANCH_CHANCE: expected a finite number, got "high"',
+      "ENABLE_3D: expected true or false, got 1",
+      'BRANCHING_MODEL: expected one of "legacy", "nutrient", got "random"',
+      "STEP_SIZE: expected a finite number, got NaN",
+      "GROWTH_SPEED: unknown parameter",
+    ]);
+  });
+
+  it("should reject unpaired periodic boundary faces", () => {
+    expect(issuesOf({ BOUNDARY_X_MIN: "periodic" })).toEqual([
+      "BOUNDARY_X_MIN/BOUNDARY_X_MAX: periodic faces must be paired with a periodic opposite face",
+    ]);
+    expect(
+      issuesOf({ BOUNDARY_X_MIN: "periodic", BOUNDARY_X_MAX: "periodic" }),
+    ).toEqual([]);
+  });
+
+  it("should reject values that are not objects", () => {
+    expect(issuesOf([])).toEqual(["config must be an object"]);
+    expect(issuesOf(null)).toEqual(["config must be an object"]);
+  });
+
+  it("should leave the config untouched when applying invalid values", () => {
+    expect(() =>
+      applyConfig(config, { BRANCH_CHANCE: 0.5, ENV_GRID_CELL_SIZE: 0 }),
+    ).toThrow(/ENV_GRID_CELL_SIZE/);
+    expect(config.BRANCH_CHANCE).toBe(originalConfig.BRANCH_CHANCE);
+
+    applyConfig(config, { BRANCH_CHANCE: 0.5 });
+    expect(config.BRANCH_CHANCE).toBe(0.5);
+  });
+
+  it("should parse URL parameters by parameter type", () => {
+    const values = configFromURLParams(
+      new URLSearchParams(
+        "BRANCH_CHANCE=0.4&ENABLE_3D=false&BRANCHING_MODEL=legacy&SHADOW_COLOR=red",
+      ),
+    );
+
+    expect(values).toEqual({
+      BRANCH_CHANCE: 0.4,
+      ENABLE_3D: false,
+      BRANCHING_MODEL: "legacy",
+      SHADOW_COLOR: "red",
+    });
+    expect(() => validateConfig(values)).not.toThrow();
+    expect(
+      issuesOf(configFromURLParams(new URLSearchParams("ENABLE_3D=yes"))),
+    ).toEqual(['ENABLE_3D: expected true or false, got "yes"']);
+  });
+
+  it("should only reset for structural parameters", () => {
+    const before = defaultConfig();
+    const live = {
+      ...before,
+      STEP_SIZE: 2,
+      ANGLE_DRIFT_STRENGTH: 0.1,
+      RESOURCE_FLOW_RATE: 3,
+      BASE_HUE: 200,
+      MAIN_LINE_WIDTH: 3,
+    };
+
+    expect(getChangedKeys(before, live)).toEqual([
+      "STEP_SIZE",
+      "ANGLE_DRIFT_STRENGTH",
+      "RESOURCE_FLOW_RATE",
+      "MAIN_LINE_WIDTH",
+      "BASE_HUE",
+    ]);
+    expect(needsReset(getChangedKeys(before, live))).toBe(false);
+    expect(needsReset(["ENV_GRID_CELL_SIZE"])).toBe(true);
+    expect(needsReset(["WIGGLE_STRENGTH", "RANDOM_SEED"])).toBe(true);
+    expect(needsReset([])).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { EnvironmentGPU } from "../../src/environmentGPU";
 import { config } from "../../src/constants";
+import { growthRadiusFor } from "../../src/worldFrame";
 
 // Mock console methods
 console.log = vi.fn();
@@ -72,10 +73,17 @@ describe("EnvironmentGPU", () => {
     expect(consumed).toBeGreaterThanOrEqual(0);
   });
 
+  it("should cover negative coordinates around the origin where tips grow", () => {
+    const consumed = env.consumeResource(-100, -100, -100, 10);
+
+    expect(consumed).toBe(10);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
   it("should handle consuming resources outside grid boundaries in 3D", () => {
-    const x = -10;
-    const y = -10;
-    const z = -10;
+    const x = -1000;
+    const y = -1000;
+    const z = -1000;
     const amount = 10;
 
     const consumed = env.consumeResource(x, y, z, amount);
@@ -114,9 +122,9 @@ describe("EnvironmentGPU", () => {
   });
 
   it("should handle adding nutrients outside grid boundaries in 3D", () => {
-    const x = -10;
-    const y = -10;
-    const z = -10;
+    const x = -1000;
+    const y = -1000;
+    const z = -1000;
     const amount = 10;
 
     env.addNutrient(x, y, z, amount);
@@ -186,6 +194,189 @@ describe("EnvironmentGPU", () => {
     // The level should be greater than 0
     expect(level).toBeGreaterThan(0);
   });
+
+  it("should return a grid copy indexed [x][y][z] that matches getNutrientLevel", () => {
+    const { x, y, z } = env.getFrame().cellToWorld(3, 2, 1);
+    env.addNutrient(x, y, z, 25);
+
+    const grid = env.getNutrientGrid();
+    expect(grid[3][2][1]).toBe(env.getNutrientLevel(x, y, z));
+
+    // Mutating the copy leaves the environment untouched
+    grid[3][2][1] = -1;
+    expect(env.getNutrientLevel(x, y, z)).toBeGreaterThan(0);
+  });
+
+  it.each(["explicit", "implicit"] as const)(
+    "should conserve total nutrient with the %s solver",
+    (solver) => {
+      config.NUTRIENT_DIFFUSION_SOLVER = solver;
+      // Coefficients well above the explicit stability limit
+      config.NUTRIENT_DIFFUSION = 0.8;
+      config.NUTRIENT_VERTICAL_DIFFUSION = 0.6;
+      const small = new EnvironmentGPU(40, 40);
+      small.addNutrient(10, 10, 10, 5000);
+      const initialSum = sumNutrients(small.getNutrientGrid());
+
+      for (let i = 0; i < 20; i++) {
+        small.diffuseNutrients();
+      }
+
+      const grid = small.getNutrientGrid();
+      expect(sumNutrients(grid) / initialSum).toBeCloseTo(1, 5);
+      // Stable schemes never overshoot into negative concentrations
+      expect(Math.min(...grid.flat(2))).toBeGreaterThanOrEqual(0);
+      expect(small.getNutrientLevel(10, 10, 10)).toBeLessThan(5000);
+    },
+  );
+
+  it("should interpolate a linear field exactly and report its gradient", () => {
+    const small = new EnvironmentGPU(40, 40);
+    const frame = small.getFrame();
+    const state = small.exportState();
+    // Value 2x + 3y + 5z in cell units, flattened x-major
+    state.nutrients = state.nutrients.map((_, index) => {
+      const z = index % state.layers;
+      const y = Math.floor(index / state.layers) % state.rows;
+      const x = Math.floor(index / (state.layers * state.rows));
+      return 2 * x + 3 * y + 5 * z;
+    });
+    small.importState(state);
+
+    const point = { x: 1.3, y: -2.7, z: 0.4 };
+    const grid = frame.worldToGrid(point.x, point.y, point.z);
+    const expected = 2 * (grid.x - 0.5) + 3 * (grid.y - 0.5) + 5 * (grid.z - 0.5);
+
+    expect(small.sampleNutrient(point.x, point.y, point.z)).toBeCloseTo(expected, 4);
+    // At a cell centre the sample equals the raw cell value
+    const center = frame.cellToWorld(4, 5, 6);
+    expect(small.sampleNutrient(center.x, center.y, center.z)).toBeCloseTo(
+      small.getNutrientLevel(center.x, center.y, center.z),
+      4,
+    );
+
+    const gradient = small.getNutrientGradient(point.x, point.y, point.z);
+    expect(gradient.x).toBeCloseTo(2 / frame.cellSize, 4);
+    expect(gradient.y).toBeCloseTo(3 / frame.cellSize, 4);
+    expect(gradient.z).toBeCloseTo(5 / frame.cellSize, 4);
+  });
+
+  describe("boundary conditions", () => {
+    const setAllFaces = (condition: typeof config.BOUNDARY_X_MIN) => {
+      config.BOUNDARY_X_MIN = condition;
+      config.BOUNDARY_X_MAX = condition;
+      config.BOUNDARY_Y_MIN = condition;
+      config.BOUNDARY_Y_MAX = condition;
+      config.BOUNDARY_Z_MIN = condition;
+      config.BOUNDARY_Z_MAX = condition;
+    };
+
+    it.each(["explicit", "implicit"] as const)(
+      "should wrap diffusion across periodic faces and conserve mass with the %s solver",
+      (solver) => {
+        config.NUTRIENT_DIFFUSION_SOLVER = solver;
+        setAllFaces("periodic");
+        const small = new EnvironmentGPU(40, 40);
+        const frame = small.getFrame();
+        const first = frame.cellToWorld(0, 2, 2);
+        const last = frame.cellToWorld(frame.cols - 1, 2, 2);
+        const beyond = frame.cellToWorld(-1, 2, 2);
+        small.addNutrient(first.x, first.y, first.z, 5000);
+        const initialSum = sumNutrients(small.getNutrientGrid());
+        const before = small.getNutrientLevel(last.x, last.y, last.z);
+
+        small.diffuseNutrients();
+
+        expect(sumNutrients(small.getNutrientGrid()) / initialSum).toBeCloseTo(1, 5);
+        // The spike in the first column leaks into the opposite edge of the grid
+        expect(small.getNutrientLevel(last.x, last.y, last.z)).toBeGreaterThan(before + 100);
+        // Positions beyond a periodic face wrap around
+        expect(small.getNutrientLevel(beyond.x, beyond.y, beyond.z)).toBe(
+          small.getNutrientLevel(last.x, last.y, last.z),
+        );
+      },
+    );
+
+    it.each(["explicit", "implicit"] as const)(
+      "should conserve mass across a periodic axis of two cells with the %s solver",
+      (solver) => {
+        config.NUTRIENT_DIFFUSION_SOLVER = solver;
+        config.NUTRIENT_DIFFUSION = 0.1;
+        config.NUTRIENT_VERTICAL_DIFFUSION = solver === "implicit" ? 0.8 : 0.1;
+        config.BOUNDARY_Z_MIN = "periodic";
+        config.BOUNDARY_Z_MAX = "periodic";
+        // Two layers: the growth volume spans 1.5 cells vertically
+        config.GROWTH_HEIGHT_FACTOR = (1.5 * config.ENV_GRID_CELL_SIZE) / (2 * growthRadiusFor(40, 40));
+        const flat = new EnvironmentGPU(40, 40);
+        const frame = flat.getFrame();
+        expect(frame.layers).toBe(2);
+
+        const top = frame.cellToWorld(2, 2, 0);
+        const bottom = frame.cellToWorld(2, 2, 1);
+        flat.addNutrient(top.x, top.y, top.z, 5000);
+        const initialSum = sumNutrients(flat.getNutrientGrid());
+        const before = flat.getNutrientLevel(bottom.x, bottom.y, bottom.z);
+
+        flat.diffuseNutrients();
+
+        expect(sumNutrients(flat.getNutrientGrid()) / initialSum).toBeCloseTo(1, 5);
+        expect(flat.getNutrientLevel(bottom.x, bottom.y, bottom.z)).toBeGreaterThan(before + 100);
+      },
+    );
+
+    it.each(["explicit", "implicit"] as const)(
+      "should drain through absorbing faces and fill from fixed faces with the %s solver",
+      (solver) => {
+        config.NUTRIENT_DIFFUSION_SOLVER = solver;
+        setAllFaces("absorbing");
+        const absorbing = new EnvironmentGPU(40, 40);
+        const absorbingSum = sumNutrients(absorbing.getNutrientGrid());
+        absorbing.diffuseNutrients();
+        expect(sumNutrients(absorbing.getNutrientGrid())).toBeLessThan(absorbingSum);
+
+        setAllFaces("fixed");
+        config.BOUNDARY_FIXED_CONCENTRATION = 1000;
+        const fixed = new EnvironmentGPU(40, 40);
+        const fixedSum = sumNutrients(fixed.getNutrientGrid());
+        fixed.diffuseNutrients();
+        expect(sumNutrients(fixed.getNutrientGrid())).toBeGreaterThan(fixedSum);
+      },
+    );
+
+    it("should treat positions beyond a fixed face as an inexhaustible reservoir", () => {
+      setAllFaces("fixed");
+      config.BOUNDARY_FIXED_CONCENTRATION = 40;
+      const small = new EnvironmentGPU(40, 40);
+
+      expect(small.getNutrientLevel(-100, 0, 0)).toBe(40);
+      expect(small.consumeResource(-100, 0, 0, 10)).toBe(10);
+      expect(small.consumeResource(-100, 0, 0, 100)).toBe(40);
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it("should reject a periodic face without a periodic opposite face", () => {
+      config.BOUNDARY_X_MIN = "periodic";
+
+      expect(() => new EnvironmentGPU(40, 40)).toThrow(/both x faces/);
+      expect(() => env.reset()).toThrow(/both x faces/);
+      expect(() => env.importState(env.exportState())).toThrow(/both x faces/);
+    });
+
+    it("should keep its boundaries until reset", () => {
+      setAllFaces("fixed");
+      config.BOUNDARY_FIXED_CONCENTRATION = 40;
+      const small = new EnvironmentGPU(40, 40);
+
+      // Edits between resets do not reach the running grid
+      config.BOUNDARY_X_MIN = "periodic";
+      expect(() => small.diffuseNutrients()).not.toThrow();
+      expect(small.consumeResource(-100, 0, 0, 10)).toBe(10);
+
+      config.BOUNDARY_X_MIN = "absorbing";
+      small.reset();
+      expect(small.consumeResource(-100, 0, 0, 10)).toBe(0);
+    });
+  });
 });
 
 // Helper function to sum all nutrients in a 3D grid
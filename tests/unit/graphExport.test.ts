@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MycelialNetwork } from "../../src/mycelialNetwork";
+import { exportGraphML, exportGEXF } from "../../src/graphExport";
+import { config } from "../../src/constants";
+
+// Store original config
+const originalConfig = { ...config };
+
+describe("graph export", () => {
+  let network: MycelialNetwork;
+
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+
+    // A small chain: a -- b -- c, with flow from a rich node along the chain
+    network = new MycelialNetwork();
+    const a = network.createNode(0, 0, 0, 800, {
+      depth: 0,
+      growthType: "main",
+      colonyId: 0,
+    });
+    const b = network.createNode(3, 4, 0, 100, {
+      depth: 0,
+      growthType: "main",
+      colonyId: 0,
+    });
+    const c = network.createNode(3, 4, 2, 0, {
+      depth: 1,
+      growthType: "secondary",
+      colonyId: 0,
+    });
+    network.connectNodes(a, b);
+    network.connectNodes(b, c);
+    network.flowResources();
+  });
+
+  it("should report edge lengths and cumulative flow", () => {
+    const edges = network.getEdges();
+
+    expect(edges).toHaveLength(2);
+    expect(edges[0]).toMatchObject({ source: 0, target: 1, length: 5 });
+    expect(edges[0].flow).toBeGreaterThan(0);
+    expect(edges[1]).toMatchObject({ source: 1, target: 2, length: 2 });
+  });
+
+  it("should export every node and edge as GraphML", () => {
+    const doc = new DOMParser().parseFromString(
+      exportGraphML(network),
+      "application/xml",
+    );
+
+    expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+    expect(doc.getElementsByTagName("node")).toHaveLength(3);
+    expect(doc.getElementsByTagName("edge")).toHaveLength(2);
+    expect(
+      Array.from(doc.getElementsByTagName("edge"), (e) => e.getAttribute("id")),
+    ).toEqual(network.getEdges().map((edge) => `e${edge.id}`));
+
+    const branchNode = doc.getElementById("n2")!;
+    const data = Array.from(branchNode.getElementsByTagName("data"));
+    const values = Object.fromEntries(
+      data.map((d) => [d.getAttribute("key"), d.textContent]),
+    );
+    expect(values).toMatchObject({
+      x: "3",
+      y: "4",
+      z: "2",
+      depth: "1",
+      growthType: "secondary",
+      colonyId: "0",
+    });
+  });
+
+  it("should export every node and edge as GEXF", () => {
+    const doc = new DOMParser().parseFromString(
+      exportGEXF(network),
+      "application/xml",
+    );
+
+    expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+    expect(doc.getElementsByTagName("node")).toHaveLength(3);
+
+    const edges = Array.from(doc.getElementsByTagName("edge"));
+    expect(edges).toHaveLength(2);
+    expect(edges.map((edge) => edge.getAttribute("id"))).toEqual(
+      network.getEdges().map((edge) => String(edge.id)),
+    );
+    const lengths = edges.map((edge) =>
+      Array.from(edge.getElementsByTagName("attvalue"))
+        .find((v) => v.getAttribute("for") === "length")!
+        .getAttribute("value"),
+    );
+    expect(lengths).toEqual(["5", "2"]);
+  });
+});
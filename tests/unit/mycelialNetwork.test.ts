@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { MycelialNetwork } from "../../src/mycelialNetwork";
+import { defaultConfig } from "../../src/configSchema";
 
 // Fix for the missing RESOURCE_FLOW_RATE constant in mycelialNetwork.ts
 // Update the import in the file later
@@ -84,6 +85,42 @@ describe("MycelialNetwork", () => {
     expect(network.getResource(node2)).toBe(500);
   });
 
+  it("should feed diffusive sinks without draining them", () => {
+    const trail = network.createNode(0, 0, 0, 5);
+    const tip = network.createNode(1, 0, 0, 0);
+    const full = network.createNode(2, 0, 0, 1000);
+    network.connectNodes(trail, tip);
+    network.connectNodes(tip, full);
+
+    network.flowResources([tip, full]);
+
+    // Small differences still reach a sink, and sinks never give
+    expect(network.getResource(tip)).toBeGreaterThan(0);
+    expect(network.getResource(trail)).toBeLessThan(5);
+    expect(network.getResource(full)).toBe(1000);
+    expect(network.findEdge(tip, full)!.flux).toBe(0);
+  });
+
+  it("should not overshoot a node fed by many neighbours", () => {
+    const hub = network.createNode(0, 0, 0, 0);
+    const spokes = Array.from({ length: 24 }, (_, i) =>
+      network.createNode(Math.cos(i), Math.sin(i), 0, 1000),
+    );
+    for (const spoke of spokes) {
+      network.connectNodes(hub, spoke);
+    }
+
+    network.flowResources([]);
+
+    // The hub fills up without ending richer than the spokes feeding it
+    const hubResource = network.getResource(hub);
+    expect(hubResource).toBeGreaterThan(0);
+    for (const spoke of spokes) {
+      expect(network.getResource(spoke)).toBeGreaterThanOrEqual(hubResource);
+    }
+    expect(network.getTotalResource()).toBeCloseTo(24 * 1000, 6);
+  });
+
   it("should reset the network correctly", () => {
     network.createNode(100, 100, 10, 500);
     network.createNode(200, 200, 20, 500);
@@ -137,4 +174,373 @@ describe("MycelialNetwork", () => {
     expect(network.getResource(node3D1)).toBeLessThan(700);
     expect(network.getResource(node2D2)).toBeGreaterThan(300);
   });
+
+  it("should find fusion targets among nearby nodes and segments", () => {
+    const a = network.createNode(0, 0, 0, 0);
+    const b = network.createNode(4, 0, 0, 0);
+    network.connectNodes(a, b);
+
+    // Close to node a
+    expect(network.findFusionTarget(0.1, 0.1, 0, 0.5, new Set())).toBe(a);
+    // Close to the middle of the a-b segment, nearer b
+    expect(network.findFusionTarget(3, 0.2, 0, 0.5, new Set())).toBe(b);
+    // Out of range
+    expect(network.findFusionTarget(2, 3, 0, 0.5, new Set())).toBeUndefined();
+    // Excluded nodes and their segments are ignored
+    expect(network.findFusionTarget(3, 0.2, 0, 0.5, new Set([b]))).toBeUndefined();
+  });
+
+  it("should restrict fusion targets to a colony", () => {
+    const own = network.createNode(0, 0, 0, 0, {
+      depth: 0,
+      growthType: "main",
+      colonyId: 0,
+    });
+    const other = network.createNode(0.2, 0, 0, 0, {
+      depth: 0,
+      growthType: "main",
+      colonyId: 1,
+    });
+
+    expect(network.findFusionTarget(0.3, 0, 0, 0.5, new Set())).toBe(other);
+    expect(network.findFusionTarget(0.3, 0, 0, 0.5, new Set(), 0)).toBe(own);
+    expect(
+      network.findFusionTarget(0.3, 0, 0, 0.5, new Set([own]), 0),
+    ).toBeUndefined();
+  });
+
+  it("should move resource from sources to sinks in the hydraulic model", () => {
+    const hydraulic = new MycelialNetwork({
+      ...defaultConfig(),
+      TRANSPORT_MODEL: "hydraulic",
+    });
+    // Source, a depleted middle node and a growing tip on a side branch
+    const source = hydraulic.createNode(0, 0, 0, 1000);
+    const middle = hydraulic.createNode(1, 0, 0, 0);
+    const tip = hydraulic.createNode(2, 0, 0, 0);
+    const idle = hydraulic.createNode(1, 1, 0, 0);
+    hydraulic.connectNodes(source, middle);
+    hydraulic.connectNodes(middle, tip);
+    hydraulic.connectNodes(middle, idle);
+
+    hydraulic.flowResources([tip]);
+
+    expect(hydraulic.getResource(source)).toBeLessThan(1000);
+    expect(hydraulic.getResource(tip)).toBeGreaterThan(0);
+    expect(hydraulic.getResource(middle)).toBeCloseTo(0);
+    // A dead end carries no flux at steady state
+    expect(hydraulic.getResource(idle)).toBeCloseTo(0);
+    const total = [source, middle, tip, idle]
+      .map((id) => hydraulic.getResource(id))
+      .reduce((a, b) => a + b);
+    expect(total).toBeCloseTo(1000);
+    expect(
+      hydraulic.getEdges().find((edge) => edge.target === idle)!.flow,
+    ).toBeCloseTo(0);
+  });
+
+  it("should never overdraw a source in the hydraulic model", () => {
+    const hydraulic = new MycelialNetwork({
+      ...defaultConfig(),
+      TRANSPORT_MODEL: "hydraulic",
+      HYPHAL_RADIUS: 2,
+      RESOURCE_FLOW_RATE: 5,
+    });
+    const source = hydraulic.createNode(0, 0, 0, 100);
+    const tip = hydraulic.createNode(0.5, 0, 0, 0);
+    hydraulic.connectNodes(source, tip);
+
+    hydraulic.flowResources([tip]);
+
+    expect(hydraulic.getResource(source)).toBeCloseTo(0);
+    expect(hydraulic.getResource(tip)).toBeCloseTo(100);
+  });
+
+  it("should flow diffusively while a long hydraulic solve is unfinished", () => {
+    // A chain longer than one solve can settle
+    const buildChain = (flowRate: number) => {
+      const chained = new MycelialNetwork({
+        ...defaultConfig(),
+        TRANSPORT_MODEL: "hydraulic",
+        RESOURCE_FLOW_RATE: flowRate,
+      });
+      const ids = [chained.createNode(0, 0, 0, 150000)];
+      for (let i = 1; i <= 150; i++) {
+        ids.push(chained.createNode(i, 0, 0, 0));
+        chained.connectNodes(ids[i - 1], ids[i]);
+      }
+      return { chained, ids };
+    };
+
+    const { chained, ids } = buildChain(2);
+    chained.flowResources([ids[150]]);
+    expect(chained.findEdge(ids[0], ids[1])!.flux).toBeGreaterThan(0);
+    expect(chained.findEdge(ids[149], ids[150])!.flux).toBe(0);
+
+    // Without flow the sources stay put, so later solves pick up the
+    // unfinished one and settle on a linear pressure drop
+    const still = buildChain(0);
+    still.chained.flowResources([still.ids[150]]);
+    const unfinished = still.chained.getNode(still.ids[75])!.pressure!;
+    expect(unfinished).not.toBeCloseTo(75000);
+    for (let i = 0; i < 10; i++) {
+      still.chained.flowResources([still.ids[150]]);
+    }
+    expect(still.chained.getNode(still.ids[75])!.pressure).toBeCloseTo(75000);
+  });
+
+  it("should thicken busy edges and prune idle ones", () => {
+    const adaptive = new MycelialNetwork({
+      ...defaultConfig(),
+      TRANSPORT_MODEL: "hydraulic",
+      EDGE_ADAPTATION_RATE: 0.2,
+    });
+    // Source feeding a tip with an idle side branch, and a tip cut off
+    // from any source
+    const source = adaptive.createNode(0, 0, 0, 100000);
+    const middle = adaptive.createNode(1, 0, 0, 0);
+    const tip = adaptive.createNode(2, 0, 0, 0);
+    const idle = adaptive.createNode(1, 1, 0, 0);
+    const stranded = adaptive.createNode(5, 0, 0, 0);
+    const strandedTip = adaptive.createNode(6, 0, 0, 0);
+    adaptive.connectNodes(source, middle);
+    adaptive.connectNodes(middle, tip);
+    adaptive.connectNodes(middle, idle);
+    adaptive.connectNodes(stranded, strandedTip);
+    const initial = adaptive.getEdgeRadius(source, middle);
+
+    const step = () => {
+      adaptive.flowResources([tip, strandedTip]);
+      return adaptive.adaptEdges([tip, strandedTip]);
+    };
+    const pruned = [step(), step()].flat();
+
+    expect(adaptive.getEdgeRadius(source, middle)).toBeGreaterThan(initial);
+    expect(adaptive.getEdgeRadius(middle, tip)).toBeGreaterThan(initial);
+    expect(adaptive.getEdgeRadius(middle, idle)).toBeLessThan(initial);
+
+    for (let i = 0; i < 6; i++) {
+      pruned.push(...step());
+    }
+
+    expect(pruned).toEqual([[middle, idle]]);
+    expect(adaptive.getEdgeRadius(middle, idle)).toBe(0);
+    expect(adaptive.getNode(middle)!.connections).not.toContain(idle);
+    // Edges leading to growing tips survive even when thin
+    expect(adaptive.getEdgeRadius(stranded, strandedTip)).toBeLessThan(
+      defaultConfig().PRUNE_RADIUS,
+    );
+    expect(adaptive.getEdgeRadius(stranded, strandedTip)).toBeGreaterThan(0);
+
+    const restored = new MycelialNetwork();
+    restored.importState(adaptive.exportState());
+    expect(restored.getEdges()).toEqual(adaptive.getEdges());
+  });
+
+  it("should never leave pruned nodes orphaned in the index", () => {
+    const adaptive = new MycelialNetwork({
+      ...defaultConfig(),
+      TRANSPORT_MODEL: "hydraulic",
+      EDGE_ADAPTATION_RATE: 0.2,
+    });
+    // A source feeding a tip through a chain with idle side branches
+    const source = adaptive.createNode(0, 0, 0, 100000);
+    let previous = source;
+    for (let i = 1; i <= 4; i++) {
+      const node = adaptive.createNode(i, 0, 0, 0);
+      const side = adaptive.createNode(i, 1, 0, 0);
+      adaptive.connectNodes(previous, node);
+      adaptive.connectNodes(node, side);
+      previous = node;
+    }
+    const tip = previous;
+
+    const pruned: [number, number][] = [];
+    for (let i = 0; i < 10; i++) {
+      adaptive.flowResources([tip]);
+      pruned.push(...adaptive.adaptEdges([tip]));
+    }
+
+    // Every side branch but the one at the tip thins out
+    expect(pruned.length).toBe(3);
+    const indexed = adaptive.findNodesWithinRadius(0, 0, 0, 100);
+    expect(indexed.sort((a, b) => a - b)).toEqual(
+      adaptive.getNodes().map((node) => node.id),
+    );
+    for (const id of indexed) {
+      expect(adaptive.getNode(id)!.connections.length).toBeGreaterThan(0);
+    }
+    for (const [, side] of pruned) {
+      expect(adaptive.getNode(side)).toBeUndefined();
+    }
+  });
+
+  it("should report each resized edge once", () => {
+    const adaptive = new MycelialNetwork({
+      ...defaultConfig(),
+      TRANSPORT_MODEL: "hydraulic",
+      EDGE_ADAPTATION_RATE: 0.2,
+    });
+    const source = adaptive.createNode(0, 0, 0, 100000);
+    const tip = adaptive.createNode(1, 0, 0, 0);
+    const idle = adaptive.createNode(5, 0, 0, 0);
+    const idleTip = adaptive.createNode(6, 0, 0, 0);
+    adaptive.connectNodes(source, tip);
+    adaptive.connectNodes(idle, idleTip);
+    const busy = adaptive.findEdge(source, tip)!.id;
+
+    adaptive.flowResources([tip, idleTip]);
+    adaptive.adaptEdges([tip, idleTip]);
+    expect(adaptive.takeResizedEdges().map((edge) => edge.id)).toContain(busy);
+    expect(adaptive.takeResizedEdges()).toEqual([]);
+
+    // Radii settle once the flux stops changing
+    for (let i = 0; i < 200; i++) {
+      adaptive.flowResources([tip, idleTip]);
+      adaptive.adaptEdges([tip, idleTip]);
+    }
+    adaptive.takeResizedEdges();
+    adaptive.flowResources([tip, idleTip]);
+    adaptive.adaptEdges([tip, idleTip]);
+    expect(adaptive.takeResizedEdges()).toEqual([]);
+
+    // A restored network has not been drawn yet
+    const restored = new MycelialNetwork();
+    restored.importState(adaptive.exportState());
+    expect(restored.takeResizedEdges()).toEqual(adaptive.getEdges());
+  });
+
+  it("should not adapt edges when adaptation is disabled", () => {
+    const a = network.createNode(0, 0, 0, 1000);
+    const b = network.createNode(1, 0, 0, 0);
+    network.connectNodes(a, b);
+
+    network.flowResources();
+
+    expect(network.adaptEdges()).toEqual([]);
+    expect(network.getEdgeRadius(a, b)).toBe(config.HYPHAL_RADIUS);
+  });
+
+  it("should keep one edge per pair of nodes", () => {
+    const a = network.createNode(0, 0, 0, 0);
+    const b = network.createNode(3, 4, 0, 0);
+
+    const id = network.connectNodes(a, b);
+
+    expect(network.connectNodes(b, a)).toBe(id);
+    expect(network.connectNodes(a, a)).toBeUndefined();
+    expect(network.connectNodes(a, 99)).toBeUndefined();
+    expect(network.getNode(a)!.connections).toEqual([b]);
+    expect(network.getEdges()).toHaveLength(1);
+    expect(network.findEdge(b, a)).toEqual(network.getEdge(id!));
+    expect(network.getEdge(id!)).toMatchObject({
+      id,
+      source: a,
+      target: b,
+      length: 5,
+      createdAt: 0,
+      flux: 0,
+      flow: 0,
+    });
+  });
+
+  it("should record edge creation steps and last flux", () => {
+    const a = network.createNode(0, 0, 0, 1000);
+    const b = network.createNode(1, 0, 0, 0);
+    const c = network.createNode(2, 0, 0, 0);
+    network.connectNodes(a, b);
+
+    network.flowResources();
+    const id = network.connectNodes(b, c)!;
+
+    expect(network.getEdge(id)!.createdAt).toBe(1);
+    const first = network.findEdge(a, b)!;
+    expect(first.flux).toBeGreaterThan(0);
+    expect(first.flow).toBe(first.flux);
+    expect(network.getNodeEdges(b).map((edge) => edge.id)).toEqual([
+      first.id,
+      id,
+    ]);
+  });
+
+  it("should remove edges and nodes and flow along the remaining edges", () => {
+    const center = network.createNode(0, 0, 0, 1000);
+    const left = network.createNode(-1, 0, 0, 0);
+    const right = network.createNode(1, 0, 0, 0);
+    const edge = network.connectNodes(center, left)!;
+    network.connectNodes(center, right);
+    // Populate the connection cache before changing the graph
+    network.flowResources();
+    const rightResource = network.getResource(right);
+
+    expect(network.removeEdge(edge)).toBe(true);
+    expect(network.removeEdge(edge)).toBe(false);
+    expect(network.getNode(left)!.connections).toEqual([]);
+    const leftResource = network.getResource(left);
+    network.flowResources();
+    expect(network.getResource(left)).toBe(leftResource);
+    expect(network.getResource(right)).toBeGreaterThan(rightResource);
+
+    expect(network.removeNode(center)).toBe(true);
+    expect(network.getNode(center)).toBeUndefined();
+    expect(network.getNode(right)!.connections).toEqual([]);
+    expect(network.getEdges()).toEqual([]);
+    expect(network.findNearestNode(0, 0, 0)).not.toBe(center);
+    expect(
+      network.findFusionTarget(0.5, 0.1, 0, 0.2, new Set()),
+    ).toBeUndefined();
+    expect(network.removeNode(center)).toBe(false);
+  });
+
+  it("should restore edges from an exported state", () => {
+    const a = network.createNode(0, 0, 0, 1000);
+    const b = network.createNode(1, 0, 0, 0);
+    network.connectNodes(a, b);
+    network.flowResources();
+
+    const restored = new MycelialNetwork();
+    restored.importState(network.exportState());
+    const c = restored.createNode(2, 0, 0, 0);
+
+    expect(restored.getEdges()).toEqual(network.getEdges());
+    expect(restored.connectNodes(b, a)).toBe(network.findEdge(a, b)!.id);
+    expect(restored.getEdge(restored.connectNodes(b, c)!)!.createdAt).toBe(1);
+    expect(restored.findFusionTarget(0.5, 0.1, 0, 0.2, new Set())).toBe(b);
+  });
+
+  it("should add and withdraw node resource without going negative", () => {
+    const id = network.createNode(0, 0, 0, 10);
+
+    network.addResource(id, 5);
+    network.addResource(id, -5);
+    expect(network.getResource(id)).toBe(15);
+
+    expect(network.withdrawResource(id, 4)).toBe(4);
+    expect(network.withdrawResource(id, 20)).toBe(11);
+    expect(network.getResource(id)).toBe(0);
+    expect(network.withdrawResource(id + 1, 5)).toBe(0);
+  });
+
+  it("should charge maintenance to every node that can pay", () => {
+    const a = network.createNode(0, 0, 0, 10);
+    const b = network.createNode(1, 0, 0, 0.5);
+    network.createNode(2, 0, 0, 0);
+
+    expect(network.chargeMaintenance(1)).toBeCloseTo(1.5);
+    expect(network.getResource(a)).toBe(9);
+    expect(network.getResource(b)).toBe(0);
+    expect(network.getTotalResource()).toBe(9);
+    expect(network.chargeMaintenance(0)).toBe(0);
+  });
+
+  it("should collect nodes within a number of hops", () => {
+    const chain = [0, 1, 2, 3, 4].map((i) => network.createNode(i, 0, 0, 0));
+    for (let i = 1; i < chain.length; i++) {
+      network.connectNodes(chain[i - 1], chain[i]);
+    }
+
+    expect(network.getNodesWithinHops(chain[0], 2)).toEqual(
+      new Set([chain[0], chain[1], chain[2]]),
+    );
+  });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MycelialNetwork } from "../../src/mycelialNetwork";
+import { computeNetworkStats } from "../../src/networkStats";
+
+describe("computeNetworkStats", () => {
+  let network: MycelialNetwork;
+
+  beforeEach(() => {
+    network = new MycelialNetwork();
+  });
+
+  it("should report zeros for an empty network", () => {
+    const stats = computeNetworkStats(network);
+
+    expect(stats.nodeCount).toBe(0);
+    expect(stats.componentCount).toBe(0);
+    expect(stats.meanPathLength).toBe(0);
+    expect(stats.boxCountingDimension).toBe(0);
+  });
+
+  it("should measure a branched tree with one loop", () => {
+    // Square loop 0-1-2-3-0 with a tail 2-4 and a separate isolated node 5
+    const a = network.createNode(0, 0, 0, 0);
+    const b = network.createNode(1, 0, 0, 0);
+    const c = network.createNode(1, 1, 0, 0);
+    const d = network.createNode(0, 1, 0, 0);
+    const e = network.createNode(1, 3, 0, 0);
+    network.createNode(10, 10, 0, 0);
+    network.connectNodes(a, b);
+    network.connectNodes(b, c);
+    network.connectNodes(c, d);
+    network.connectNodes(d, a);
+    network.connectNodes(c, e);
+    network.connectNodes(c, e); // Duplicate connection counts once
+
+    const stats = computeNetworkStats(network);
+
+    expect(stats.nodeCount).toBe(6);
+    expect(stats.edgeCount).toBe(5);
+    expect(stats.degreeDistribution).toEqual([1, 1, 3, 1]);
+    expect(stats.componentCount).toBe(2);
+    expect(stats.cycleCount).toBe(1);
+    expect(stats.totalLength).toBeCloseTo(6);
+    expect(stats.branchingNodeRatio).toBeCloseTo(1 / 6);
+
+    // Distances from node 0: 0, 1, 2, 1, 4; node 5 is unreachable
+    expect(stats.reachableNodeCount).toBe(5);
+    expect(stats.meanPathLength).toBeCloseTo(8 / 5);
+  });
+
+  it("should use every node at the inoculation point as a source", () => {
+    const first = network.createNode(0, 0, 0, 0);
+    const second = network.createNode(0, 0, 0, 0);
+    network.connectNodes(first, network.createNode(2, 0, 0, 0));
+    network.connectNodes(second, network.createNode(0, 4, 0, 0));
+
+    const stats = computeNetworkStats(network, { x: 0, y: 0, z: 0 });
+
+    expect(stats.reachableNodeCount).toBe(4);
+    expect(stats.meanPathLength).toBeCloseTo(6 / 4);
+  });
+
+  it("should measure each colony from its own inoculum", () => {
+    const first = network.createNode(0, 0, 0, 0);
+    network.connectNodes(first, network.createNode(2, 0, 0, 0));
+    const second = network.createNode(50, 0, 0, 0);
+    network.connectNodes(second, network.createNode(50, 4, 0, 0));
+
+    const origin = computeNetworkStats(network);
+    const both = computeNetworkStats(network, [
+      { x: 0, y: 0, z: 0 },
+      { x: 50, y: 0, z: 0 },
+    ]);
+
+    // From the origin alone the second colony is unreachable
+    expect(origin.reachableNodeCount).toBe(2);
+    expect(both.reachableNodeCount).toBe(4);
+    expect(both.meanPathLength).toBeCloseTo(6 / 4);
+  });
+
+  it("should estimate a box-counting dimension near 1 for a line", () => {
+    let previous = network.createNode(0, 0, 0, 0);
+    for (let i = 1; i <= 256; i++) {
+      const next = network.createNode(i, 0, 0, 0);
+      network.connectNodes(previous, next);
+      previous = next;
+    }
+
+    const stats = computeNetworkStats(network);
+
+    expect(stats.boxCountingDimension).toBeCloseTo(1, 1);
+  });
+});
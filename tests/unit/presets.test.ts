@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  PRESETS,
+  PresetError,
+  applyPreset,
+  getPreset,
+  getPresetNames,
+} from "../../src/presets";
+import { Simulation } from "../../src/simulation";
+import { Perlin } from "../../src/Perlin";
+import { EnvironmentGPU } from "../../src/environmentGPU";
+import { MycelialNetwork } from "../../src/mycelialNetwork";
+import { Random } from "../../src/random";
+import { config } from "../../src/constants";
+
+// Mock console methods
+console.log = vi.fn();
+console.warn = vi.fn();
+
+// Store original config
+const originalConfig = { ...config };
+
+describe("presets", () => {
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+  });
+
+  it("should have unique names and only override known parameters", () => {
+    expect(new Set(getPresetNames()).size).toBe(PRESETS.length);
+    for (const preset of PRESETS) {
+      expect(preset.version).toBeGreaterThanOrEqual(1);
+      for (const key of Object.keys(preset.values)) {
+        expect(config).toHaveProperty(key);
+      }
+    }
+  });
+
+  it("should apply a preset on top of the defaults", () => {
+    config.BASE_LIFE = 1;
+    config.RANDOM_SEED = 99;
+
+    const preset = applyPreset("sparse-diffuse");
+
+    expect(config).toMatchObject(preset.values);
+    expect(config.BASE_LIFE).toBe(originalConfig.BASE_LIFE);
+    expect(config.RANDOM_SEED).toBe(99);
+    expect(config.PRESET).toBe("sparse-diffuse");
+    expect(config.PRESET_VERSION).toBe(preset.version);
+  });
+
+  it("should restore the defaults with the default preset", () => {
+    applyPreset("yeast-like");
+    applyPreset("default");
+
+    expect({ ...config }).toEqual(originalConfig);
+  });
+
+  it("should reject unknown presets", () => {
+    expect(() => getPreset("lichen")).toThrow(PresetError);
+    expect(() => applyPreset("lichen")).toThrow(/Unknown preset "lichen"/);
+    expect(config.PRESET).toBe("default");
+  });
+
+  it.each(getPresetNames())(
+    "should grow a colony with the %s preset",
+    (name) => {
+      applyPreset(name);
+
+      const rng = new Random(config.RANDOM_SEED);
+      const simulation = new Simulation(
+        100,
+        100,
+        new Perlin(rng),
+        new EnvironmentGPU(100, 100, rng),
+        new MycelialNetwork(),
+        rng,
+      );
+      simulation.init();
+      for (let i = 0; i < 10; i++) {
+        simulation.step();
+      }
+
+      expect(simulation.getNetwork().getNodes().length).toBeGreaterThan(
+        config.MAIN_BRANCH_COUNT,
+      );
+    },
+  );
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from "vitest";
+import { Random } from "../../src/random";
+import { Perlin } from "../../src/Perlin";
+import { GrowthManager } from "../../src/growth";
+import { EnvironmentGPU } from "../../src/environmentGPU";
+import { MycelialNetwork } from "../../src/mycelialNetwork";
+
+// Mock console methods
+console.log = vi.fn();
+console.warn = vi.fn();
+
+describe("Random", () => {
+  it("should generate values in the range [0, 1)", () => {
+    const rng = new Random(42);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("should produce the same sequence for the same seed", () => {
+    const a = new Random(1234);
+    const b = new Random(1234);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    const a = new Random(1);
+    const b = new Random(2);
+
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it("should resume the sequence from a saved state", () => {
+    const rng = new Random(99);
+    rng.next();
+    rng.next();
+
+    const state = rng.getState();
+    const expected = [rng.next(), rng.next(), rng.next()];
+
+    rng.setState(state);
+    expect([rng.next(), rng.next(), rng.next()]).toEqual(expected);
+  });
+
+  it("should restart the sequence when reseeded", () => {
+    const rng = new Random(7);
+    const first = rng.next();
+
+    rng.reseed(7);
+    expect(rng.next()).toBe(first);
+  });
+
+  it("should generate integers within bounds", () => {
+    const rng = new Random(5);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.nextInt(10);
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(10);
+    }
+  });
+});
+
+describe("Seeded simulation", () => {
+  const width = 100;
+  const height = 100;
+
+  const mockCtx = {
+    fillStyle: "",
+    strokeStyle: "",
+    lineWidth: 1,
+    shadowBlur: 0,
+    shadowColor: "",
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    lineTo: vi.fn(),
+    stroke: vi.fn(),
+    clearRect: vi.fn(),
+    fillRect: vi.fn(),
+  } as unknown as CanvasRenderingContext2D;
+
+  // Runs a small colony and returns every node resource it produced
+  const runColony = (seed: number): number[] => {
+    const rng = new Random(seed);
+    const perlin = new Perlin(rng);
+    const envGPU = new EnvironmentGPU(width, height, rng);
+    const network = new MycelialNetwork();
+    const growth = new GrowthManager(
+      mockCtx,
+      width,
+      height,
+      width / 2,
+      height / 2,
+      perlin,
+      envGPU,
+      network,
+      undefined,
+      rng,
+    );
+
+    growth.init();
+    for (let i = 0; i < 20; i++) {
+      growth.updateAndDraw(i * 100);
+    }
+
+    const nodeCount = network.createNode(0, 0, 0, 0);
+    return Array.from({ length: nodeCount }, (_, id) =>
+      network.getResource(id),
+    );
+  };
+
+  it("should produce identical Perlin noise for the same seed", () => {
+    const a = new Perlin(new Random(2024));
+    const b = new Perlin(new Random(2024));
+
+    expect(a.noise3D(1.3, 4.7, 2.1)).toBe(b.noise3D(1.3, 4.7, 2.1));
+    expect(a.noise2D(8.2, 0.4)).toBe(b.noise2D(8.2, 0.4));
+  });
+
+  it("should reproduce the exact same colony from the same seed", () => {
+    const first = runColony(1337);
+    const second = runColony(1337);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it("should grow a different colony from a different seed", () => {
+    expect(runColony(1)).not.toEqual(runColony(2));
+  });
+});
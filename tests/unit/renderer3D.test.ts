@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Renderer3D } from "../../src/renderer3D";
+import { defaultConfig } from "../../src/configSchema";
+import { Config } from "../../src/constants";
+
+// jsdom has no WebGL context, so stand in for the WebGL renderer only
+vi.mock("three", async (importOriginal) => {
+  const three = await importOriginal<typeof import("three")>();
+  class WebGLRenderer {
+    domElement = document.createElement("canvas");
+    setSize() {}
+    setPixelRatio() {}
+    render() {}
+  }
+  return { ...three, WebGLRenderer };
+});
+
+describe("Renderer3D", () => {
+  let renderer: Renderer3D;
+  let config: Config;
+
+  beforeEach(() => {
+    config = defaultConfig();
+    renderer = new Renderer3D(document.createElement("div"), 800, 600, config);
+  });
+
+  it("should draw segments wider as their edges thicken", () => {
+    const from = { x: 0, y: 0, z: 0 };
+    const to = { x: 1, y: 0, z: 0 };
+    renderer.addHyphalSegment("main", from, to, "main", 0);
+    renderer.addHyphalSegment("cord", from, to, "secondary", 1, 0, 3);
+
+    expect(renderer.getSegmentWidth("main")).toBe(config.MAIN_LINE_WIDTH);
+    expect(renderer.getSegmentWidth("cord")).toBe(
+      config.SECONDARY_LINE_WIDTH * 3,
+    );
+
+    renderer.setSegmentWidthScale("cord", 5);
+    expect(renderer.getSegmentWidth("cord")).toBe(
+      config.SECONDARY_LINE_WIDTH * 5,
+    );
+
+    renderer.removeHyphalSegment("cord");
+    expect(renderer.getSegmentWidth("cord")).toBeUndefined();
+  });
+});
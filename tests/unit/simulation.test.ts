@@ -0,0 +1,628 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  Simulation,
+  SegmentEvent,
+  BranchEvent,
+  FusionEvent,
+  TipDeathEvent,
+  PruneEvent,
+  MetabolicLedger,
+  HyphaTip,
+  steerToward,
+} from "../../src/simulation";
+import { Perlin } from "../../src/Perlin";
+import { EnvironmentGPU } from "../../src/environmentGPU";
+import { MycelialNetwork } from "../../src/mycelialNetwork";
+import { Random } from "../../src/random";
+import { Config, config } from "../../src/constants";
+import { defaultConfig } from "../../src/configSchema";
+import { growthRadiusFor } from "../../src/worldFrame";
+
+// Mock console methods
+console.log = vi.fn();
+console.warn = vi.fn();
+
+// Store original config
+const originalConfig = { ...config };
+
+describe("Simulation", () => {
+  let simulation: Simulation;
+  let network: MycelialNetwork;
+
+  const width = 100;
+  const height = 100;
+
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+
+    const rng = new Random(42);
+    network = new MycelialNetwork();
+    simulation = new Simulation(
+      width,
+      height,
+      new Perlin(rng),
+      new EnvironmentGPU(width, height, rng),
+      network,
+      rng,
+    );
+  });
+
+  it("should step without any rendering context", () => {
+    simulation.init();
+    expect(simulation.getTips()).toHaveLength(config.MAIN_BRANCH_COUNT);
+
+    for (let i = 0; i < 10; i++) {
+      simulation.update(i * 100);
+    }
+
+    expect(simulation.getFrameCount()).toBe(10);
+    expect(simulation.getTips().length).toBeGreaterThan(0);
+  });
+
+  it("should emit a segment event for every tip extension", () => {
+    const segments: SegmentEvent[] = [];
+    simulation.addObserver({ onSegment: (event) => segments.push(event) });
+
+    simulation.init();
+    simulation.step();
+
+    expect(segments).toHaveLength(config.MAIN_BRANCH_COUNT);
+    for (const segment of segments) {
+      expect(segment.from).toEqual({ x: 0, y: 0, z: 0 });
+      expect(segment.fromNodeId).toBeDefined();
+      // The tip's resource stays behind in the hypha it grew from
+      expect(network.getResource(segment.fromNodeId!)).toBeGreaterThan(0);
+      expect(network.getResource(segment.toNodeId)).toBe(0);
+    }
+  });
+
+  it("should emit branch events for new tips", () => {
+    config.BRANCHING_MODEL = "legacy";
+    config.BRANCH_CHANCE = 1;
+
+    const branches: BranchEvent[] = [];
+    simulation.addObserver({ onBranch: (event) => branches.push(event) });
+
+    simulation.init();
+    simulation.step();
+
+    expect(branches.length).toBeGreaterThan(0);
+    expect(branches[0].branch.growthType).toBe("secondary");
+    expect(branches[0].branch.depth).toBe(branches[0].parent.depth + 1);
+  });
+
+  it("should split tips dichotomously on apical branching", () => {
+    config.MAIN_BRANCH_COUNT = 4;
+    config.ANASTOMOSIS_RADIUS = 0.01;
+    simulation.setBranchingModel({
+      decide: () => ({ type: "apical", count: 1 }),
+    });
+
+    const branches: BranchEvent[] = [];
+    simulation.addObserver({ onBranch: (event) => branches.push(event) });
+
+    simulation.init();
+    simulation.step();
+
+    expect(branches).toHaveLength(4);
+    for (const { parent, branch } of branches) {
+      expect(branch.growthType).toBe(parent.growthType);
+      expect(parent.sinceBranch).toBe(0);
+
+      const heading = (tip: HyphaTip) => [
+        Math.cos(tip.angle) * Math.cos(tip.verticalAngle),
+        Math.sin(tip.angle) * Math.cos(tip.verticalAngle),
+        Math.sin(tip.verticalAngle),
+      ];
+      const [a, b] = [heading(parent), heading(branch)];
+      expect(Math.acos(a[0] * b[0] + a[1] * b[1] + a[2] * b[2])).toBeCloseTo(
+        config.DICHOTOMOUS_BRANCH_ANGLE,
+      );
+    }
+  });
+
+  it("should emit death events when tips leave the growth boundary", () => {
+    config.GROWTH_RADIUS_FACTOR = 0.01;
+    const smallSimulation = new Simulation(
+      width,
+      height,
+      new Perlin(new Random(1)),
+      new EnvironmentGPU(width, height, new Random(1)),
+      new MycelialNetwork(),
+      new Random(1),
+    );
+
+    const deaths: TipDeathEvent[] = [];
+    smallSimulation.addObserver({ onTipDeath: (event) => deaths.push(event) });
+
+    smallSimulation.init();
+    for (let i = 0; i < 5; i++) {
+      smallSimulation.step();
+    }
+
+    expect(deaths.some((event) => event.cause === "boundary")).toBe(true);
+  });
+
+  it("should fuse tips that reach existing parts of the network", () => {
+    config.ANASTOMOSIS_RADIUS = 0.5;
+    config.BRANCH_CHANCE = 0.9;
+
+    const fusions: FusionEvent[] = [];
+    const deaths: TipDeathEvent[] = [];
+    simulation.addObserver({
+      onFusion: (event) => fusions.push(event),
+      onTipDeath: (event) => deaths.push(event),
+    });
+
+    simulation.init();
+    for (let i = 0; i < 30; i++) {
+      simulation.step();
+    }
+
+    expect(fusions.length).toBeGreaterThan(0);
+    for (const fusion of fusions) {
+      expect(fusion.tip.life).toBe(0);
+      expect(network.getNode(fusion.nodeId)!.connections).toContain(
+        fusion.targetNodeId,
+      );
+      expect(
+        Math.hypot(
+          fusion.to.x - fusion.from.x,
+          fusion.to.y - fusion.from.y,
+          fusion.to.z - fusion.from.z,
+        ),
+      ).toBeLessThan(config.ANASTOMOSIS_RADIUS + config.STEP_SIZE * 3);
+    }
+    expect(deaths.filter((event) => event.cause === "fusion")).toHaveLength(
+      fusions.length,
+    );
+  });
+
+  it("should not fuse main hyphae into each other at the inoculum", () => {
+    // Few, widely spaced main hyphae whose first step stays within the
+    // radius of the other root nodes at the origin
+    config.MAIN_BRANCH_COUNT = 4;
+    config.ANASTOMOSIS_RADIUS = 1.2;
+
+    const fusions: FusionEvent[] = [];
+    simulation.addObserver({ onFusion: (event) => fusions.push(event) });
+
+    simulation.init();
+    simulation.step();
+
+    expect(fusions).toHaveLength(0);
+  });
+
+  it("should seed tips and root nodes at every inoculum", () => {
+    simulation.setInocula([
+      {
+        position: { x: -20, y: 0, z: 0 },
+        tipCount: 3,
+        resource: 500,
+        colonyId: 0,
+      },
+      {
+        position: { x: 20, y: 5, z: 0 },
+        tipCount: 5,
+        resource: 800,
+        colonyId: 1,
+      },
+    ]);
+    simulation.init();
+
+    const tips = simulation.getTips();
+    expect(tips).toHaveLength(8);
+    expect(tips.filter((tip) => tip.colonyId === 1)).toHaveLength(5);
+    for (const tip of tips) {
+      const inoculum = simulation.getInocula()[tip.colonyId];
+      expect({ x: tip.x, y: tip.y, z: tip.z }).toEqual(inoculum.position);
+      expect(tip.resource).toBe(inoculum.resource);
+      expect(network.getNode(tip.nodeId!)!.colonyId).toBe(tip.colonyId);
+    }
+
+    simulation.step();
+    for (const tip of simulation.getTips()) {
+      expect(network.getNode(tip.nodeId!)!.colonyId).toBe(tip.colonyId);
+    }
+  });
+
+  it("should bound each colony's growth around its own inoculum", () => {
+    // A small growth sphere, with the inoculum most of the way to its edge
+    const smallConfig = { ...config, GROWTH_RADIUS_FACTOR: 0.08 };
+    const radius = growthRadiusFor(width, height, smallConfig);
+    const position = { x: radius * 0.75, y: 0, z: 0 };
+    const rng = new Random(42);
+    const small = new Simulation(
+      width,
+      height,
+      new Perlin(rng),
+      new EnvironmentGPU(width, height, rng, smallConfig),
+      new MycelialNetwork(smallConfig),
+      rng,
+      smallConfig,
+    );
+    small.setInocula([{ position, tipCount: 12, resource: 3000, colonyId: 0 }]);
+    const deaths: TipDeathEvent[] = [];
+    small.addObserver({ onTipDeath: (event) => deaths.push(event) });
+
+    small.init();
+    for (let i = 0; i < 40; i++) {
+      small.update(i * 100);
+    }
+
+    const boundaryDeaths = deaths.filter((event) => event.cause === "boundary");
+    expect(boundaryDeaths.length).toBeGreaterThan(0);
+    for (const { tip } of boundaryDeaths) {
+      expect(
+        Math.hypot(tip.x - position.x, tip.y - position.y, tip.z - position.z),
+      ).toBeGreaterThan(radius);
+    }
+  });
+
+  it.each([
+    ["self", 0, 0],
+    ["cross", 1, 0],
+    ["incompatible", 0, 1],
+  ] as const)(
+    "should apply %s colony fusion between competing colonies",
+    (mode, crossFusions, incompatibleDeaths) => {
+      // Two dense colonies inoculated close enough to meet
+      config.COLONY_FUSION_MODE = mode;
+      config.INOCULUM_COUNT = 2;
+      config.INOCULUM_DISTANCE = 3;
+      config.MAIN_BRANCH_COUNT = 30;
+      config.ANASTOMOSIS_RADIUS = 0.5;
+
+      const fusions: FusionEvent[] = [];
+      const deaths: TipDeathEvent[] = [];
+      simulation.addObserver({
+        onFusion: (event) => fusions.push(event),
+        onTipDeath: (event) => deaths.push(event),
+      });
+
+      simulation.init();
+      for (let i = 0; i < 15; i++) {
+        simulation.step();
+      }
+
+      const across = fusions.filter(
+        (event) =>
+          network.getNode(event.targetNodeId)!.colonyId !== event.tip.colonyId,
+      );
+      const incompatible = deaths.filter(
+        (event) => event.cause === "incompatibility",
+      );
+      expect(Math.sign(across.length)).toBe(crossFusions);
+      expect(Math.sign(incompatible.length)).toBe(incompatibleDeaths);
+    },
+  );
+
+  it("should notify observers on reset and stop after removal", () => {
+    const observer = { onReset: vi.fn(), onSegment: vi.fn() };
+    simulation.addObserver(observer);
+
+    simulation.init();
+    expect(observer.onReset).toHaveBeenCalledTimes(1);
+
+    simulation.removeObserver(observer);
+    simulation.step();
+    expect(observer.onSegment).not.toHaveBeenCalled();
+  });
+
+  it("should steer tips up the nutrient gradient", () => {
+    // Mean heading along +x of the main hyphae after growing in a field
+    // that gets richer toward +x
+    const headingAlongGradient = (strength: number): number => {
+      config.CHEMOTROPISM_STRENGTH = strength;
+      const rng = new Random(42);
+      const env = new EnvironmentGPU(width, height, rng);
+      const state = env.exportState();
+      const columnSize = state.rows * state.layers;
+      state.nutrients = state.nutrients.map(
+        (_, index) => 10 + 5 * Math.floor(index / columnSize),
+      );
+      env.importState(state);
+
+      const sim = new Simulation(
+        width,
+        height,
+        new Perlin(rng),
+        env,
+        new MycelialNetwork(),
+        rng,
+      );
+      sim.init();
+      for (let i = 0; i < 10; i++) {
+        sim.step();
+      }
+
+      const mains = sim.getTips().filter((tip) => tip.growthType === "main");
+      return (
+        mains.reduce(
+          (sum, tip) => sum + Math.cos(tip.angle) * Math.cos(tip.verticalAngle),
+          0,
+        ) / mains.length
+      );
+    };
+
+    expect(headingAlongGradient(0.5)).toBeGreaterThan(
+      headingAlongGradient(0) + 0.1,
+    );
+  });
+
+  it("should steer tips away from nearby hyphae", () => {
+    // A single main hypha growing along +x beside an unrelated hypha at y = 1.5
+    config.MAIN_BRANCH_COUNT = 1;
+    config.BRANCH_CHANCE = 0;
+    config.CHEMOTROPISM_STRENGTH = 0;
+    config.ANGLE_DRIFT_STRENGTH = 0;
+    config.WIGGLE_STRENGTH = 0;
+    config.VERTICAL_ANGLE_DRIFT_STRENGTH = 0;
+    config.VERTICAL_WIGGLE_STRENGTH = 0;
+
+    const finalY = (strength: number): number => {
+      config.AUTOTROPISM_STRENGTH = strength;
+      const rng = new Random(42);
+      const net = new MycelialNetwork();
+      const sim = new Simulation(
+        width,
+        height,
+        new Perlin(rng),
+        new EnvironmentGPU(width, height, rng),
+        net,
+        rng,
+      );
+      sim.init();
+
+      let previous: number | undefined;
+      for (let x = -2; x <= 20; x += 0.5) {
+        const id = net.createNode(x, 1.5, 0, 0);
+        if (previous !== undefined) {
+          net.connectNodes(previous, id);
+        }
+        previous = id;
+      }
+
+      for (let i = 0; i < 10; i++) {
+        sim.step();
+      }
+      return sim.getTips()[0].y;
+    };
+
+    expect(finalY(0)).toBeCloseTo(0);
+    expect(finalY(0.5)).toBeLessThan(-0.2);
+  });
+
+  it("should pick up live parameter changes without a reset", () => {
+    config.WIGGLE_STRENGTH = 0;
+    config.VERTICAL_WIGGLE_STRENGTH = 0;
+
+    // A twin run on a copy of the config, which keeps the original step
+    // size; step length also depends on each tip's resource
+    const rng = new Random(42);
+    const twinConfig = { ...config };
+    const twin = new Simulation(
+      width,
+      height,
+      new Perlin(rng),
+      new EnvironmentGPU(width, height, rng, twinConfig),
+      new MycelialNetwork(twinConfig),
+      rng,
+      twinConfig,
+    );
+    const lengths: number[][] = [[], []];
+    const onReset = vi.fn();
+    [simulation, twin].forEach((run, index) => {
+      run.init();
+      run.addObserver({
+        onSegment: (event) =>
+          lengths[index].push(
+            Math.hypot(
+              event.to.x - event.from.x,
+              event.to.y - event.from.y,
+              event.to.z - event.from.z,
+            ),
+          ),
+        onReset,
+      });
+    });
+    const meanLength = (index: number) =>
+      lengths[index].reduce((sum, length) => sum + length, 0) /
+      lengths[index].length;
+
+    simulation.step();
+    twin.step();
+    lengths[0] = [];
+    lengths[1] = [];
+    config.STEP_SIZE = 2 * originalConfig.STEP_SIZE;
+    simulation.step();
+    twin.step();
+
+    expect(meanLength(0) / meanLength(1)).toBeGreaterThan(1.5);
+    expect(onReset).not.toHaveBeenCalled();
+  });
+
+  it("should run side by side with separate configs", () => {
+    // Builds a simulation whose every subsystem reads the given config
+    const create = (runConfig: Config): Simulation => {
+      const rng = new Random(42);
+      return new Simulation(
+        width,
+        height,
+        new Perlin(rng),
+        new EnvironmentGPU(width, height, rng, runConfig),
+        new MycelialNetwork(runConfig),
+        rng,
+        runConfig,
+      );
+    };
+    const sparse = create({ ...defaultConfig(), MAIN_BRANCH_COUNT: 3 });
+    const dense = create({
+      ...defaultConfig(),
+      MAIN_BRANCH_COUNT: 7,
+      ENV_GRID_CELL_SIZE: 4,
+    });
+
+    sparse.init();
+    dense.init();
+    expect(sparse.getTips()).toHaveLength(3);
+    expect(dense.getTips()).toHaveLength(7);
+    for (let i = 0; i < 5; i++) {
+      sparse.step();
+      dense.step();
+    }
+
+    expect(sparse.getEnvironment().getFrame().cellSize).toBe(
+      originalConfig.ENV_GRID_CELL_SIZE,
+    );
+    expect(dense.getEnvironment().getFrame().cellSize).toBe(4);
+    // The shared global config is left alone
+    expect(config).toEqual(originalConfig);
+  });
+
+  it("should report edges pruned by adaptation", () => {
+    config.TRANSPORT_MODEL = "hydraulic";
+    config.EDGE_ADAPTATION_RATE = 0.5;
+    config.PRUNE_RADIUS = 0.4;
+    const pruned: PruneEvent[] = [];
+    simulation.addObserver({ onPrune: (event) => pruned.push(event) });
+
+    simulation.init();
+    for (let i = 0; i < 20; i++) {
+      simulation.update(i * 100);
+    }
+
+    expect(pruned.length).toBeGreaterThan(0);
+    for (const { source, target } of pruned) {
+      expect(network.getEdgeRadius(source, target)).toBe(0);
+      // Endpoints left without edges are removed altogether
+      expect(network.getNode(source)?.connections ?? []).not.toContain(target);
+    }
+  });
+
+  it("should draw tip budgets from their network nodes", () => {
+    config.NUTRIENT_CONSUMPTION_RATE = 0;
+    config.NODE_MAINTENANCE_COST = 0;
+    config.HYPHAL_GROWTH_COST = 2;
+    let grown = 0;
+    simulation.addObserver({
+      onSegment: ({ from, to }) => {
+        grown += Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+      },
+    });
+    const totalResource = () =>
+      network.getNodes().reduce((sum, node) => sum + node.resource, 0);
+
+    simulation.init();
+    const before = totalResource();
+    simulation.step();
+
+    // Growth is the only drain, and the root nodes can pay for all of it
+    expect(grown).toBeGreaterThan(0);
+    expect(totalResource()).toBeCloseTo(before - 2 * grown, 6);
+    for (const tip of simulation.getTips()) {
+      expect(network.getResource(tip.nodeId!)).toBe(0);
+    }
+  });
+
+  it("should shorten steps a tip cannot pay for in full", () => {
+    config.NUTRIENT_CONSUMPTION_RATE = 0;
+    config.NODE_MAINTENANCE_COST = 0;
+    config.HYPHAL_GROWTH_COST = 2;
+    const grown = new Map<number, number>();
+    simulation.addObserver({
+      onSegment: ({ tip, from, to }) => {
+        grown.set(
+          tip.id,
+          Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z),
+        );
+      },
+    });
+
+    simulation.init();
+    const tip = simulation.getTips()[0];
+    const nodeId = tip.nodeId!;
+    // Enough for a tenth of a unit of hypha, well short of a full step
+    network.withdrawResource(nodeId, network.getResource(nodeId) - 0.2);
+    simulation.step();
+
+    expect(grown.get(tip.id)).toBeCloseTo(0.1, 6);
+    expect(network.getResource(nodeId)).toBeCloseTo(0, 6);
+  });
+
+  it("should feed growing tips from upstream nodes", () => {
+    simulation.init();
+    for (let i = 0; i < 50; i++) {
+      simulation.update(i * 100);
+
+      // Tips grow into empty nodes, so whatever their nodes hold was
+      // translocated in along the hyphae behind them
+      const tips = simulation.getTips();
+      const fed = tips.filter(
+        (tip) =>
+          network.getResource(tip.nodeId!) > 0 &&
+          network.getNodeEdges(tip.nodeId!).some((edge) => edge.flux > 0),
+      );
+      expect(fed.length, `frame ${i}`).toBeGreaterThan(tips.length * 0.8);
+    }
+  });
+
+  it("should balance the metabolic ledger every step", () => {
+    const ledgers: MetabolicLedger[] = [];
+    simulation.addObserver({ onMetabolism: (ledger) => ledgers.push(ledger) });
+
+    simulation.init();
+    expect(simulation.getLedger()).toBeNull();
+    for (let i = 0; i < 10; i++) {
+      simulation.update(i * 100);
+    }
+
+    expect(ledgers).toHaveLength(10);
+    expect(simulation.getLedger()).toEqual(ledgers[9]);
+    ledgers.forEach((ledger, i) => {
+      expect(ledger.uptake).toBeGreaterThan(0);
+      expect(ledger.extensionCost).toBeGreaterThan(0);
+      expect(ledger.maintenanceCost).toBeGreaterThan(0);
+      expect(ledger.resourceAfter).toBeCloseTo(
+        ledger.resourceBefore +
+          ledger.uptake -
+          ledger.extensionCost -
+          ledger.maintenanceCost,
+        6,
+      );
+      // Translocation between steps neither creates nor destroys resource
+      if (i > 0) {
+        expect(ledger.resourceBefore).toBeCloseTo(
+          ledgers[i - 1].resourceAfter,
+          6,
+        );
+      }
+    });
+  });
+
+  it("should starve tips whose node has run dry", () => {
+    config.NUTRIENT_CONSUMPTION_RATE = 0;
+    const deaths: TipDeathEvent[] = [];
+    simulation.addObserver({ onTipDeath: (event) => deaths.push(event) });
+
+    simulation.init();
+    const tip = simulation.getTips()[0];
+    network.withdrawResource(tip.nodeId!, network.getResource(tip.nodeId!));
+    simulation.step();
+
+    expect(deaths).toContainEqual({ tip, cause: "starvation" });
+    expect(simulation.getTips()).not.toContain(tip);
+  });
+
+  it("should turn headings the shorter way round", () => {
+    const tip = { angle: Math.PI - 0.1, verticalAngle: 0 } as HyphaTip;
+
+    steerToward(tip, { x: -1, y: -0.1, z: 0 }, 1);
+    expect(tip.angle).toBeCloseTo(Math.PI + Math.atan2(0.1, 1));
+
+    steerToward(tip, { x: 0, y: 0, z: 1 }, 0.5);
+    expect(tip.angle).toBeCloseTo(Math.PI + Math.atan2(0.1, 1));
+    expect(tip.verticalAngle).toBeCloseTo(Math.PI / 4);
+  });
+});
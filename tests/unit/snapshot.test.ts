@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  Simulation,
+  SimulationState,
+  SegmentEvent,
+} from "../../src/simulation";
+import { Perlin } from "../../src/Perlin";
+import { EnvironmentGPU } from "../../src/environmentGPU";
+import { MycelialNetwork, NetworkNode } from "../../src/mycelialNetwork";
+import { Random } from "../../src/random";
+import { config } from "../../src/constants";
+import {
+  createSnapshot,
+  restoreSnapshot,
+  snapshotToJSON,
+  snapshotFromJSON,
+  encodeSnapshot,
+  decodeSnapshot,
+  SnapshotError,
+  SNAPSHOT_VERSION,
+  SimulationSnapshot,
+} from "../../src/snapshot";
+
+// Mock console methods
+console.log = vi.fn();
+console.warn = vi.fn();
+
+// Store original config
+const originalConfig = { ...config };
+
+const width = 100;
+const height = 100;
+
+function createSimulation(seed: number): Simulation {
+  const rng = new Random(seed);
+  return new Simulation(
+    width,
+    height,
+    new Perlin(rng),
+    new EnvironmentGPU(width, height, rng),
+    new MycelialNetwork(),
+    rng,
+  );
+}
+
+function run(simulation: Simulation, from: number, to: number): void {
+  for (let i = from; i < to; i++) {
+    simulation.update(i * 100);
+  }
+}
+
+describe("snapshot", () => {
+  beforeEach(() => {
+    // Reset config to original values
+    Object.assign(config, originalConfig);
+  });
+
+  it("should resume bit-for-bit from a JSON snapshot", () => {
+    const reference = createSimulation(7);
+    reference.init();
+    run(reference, 0, 60);
+
+    const checkpointed = createSimulation(7);
+    checkpointed.init();
+    run(checkpointed, 0, 30);
+    const json = snapshotToJSON(createSnapshot(checkpointed));
+
+    // Restore into a simulation with different seed and history
+    const resumed = createSimulation(99);
+    resumed.init();
+    run(resumed, 0, 5);
+    restoreSnapshot(resumed, snapshotFromJSON(json));
+    run(resumed, 30, 60);
+
+    expect(snapshotToJSON(createSnapshot(resumed))).toBe(
+      snapshotToJSON(createSnapshot(reference)),
+    );
+  });
+
+  it("should round-trip through the binary encoding", () => {
+    const simulation = createSimulation(3);
+    simulation.init();
+    run(simulation, 0, 20);
+
+    const snapshot = createSnapshot(simulation);
+    const decoded = decodeSnapshot(encodeSnapshot(snapshot));
+
+    // JSON does not distinguish -0 from 0, so compare serialized forms
+    expect(snapshotToJSON(decoded)).toBe(snapshotToJSON(snapshot));
+    expect(decoded.environment.nutrients).toEqual(
+      snapshot.environment.nutrients,
+    );
+  });
+
+  it("should pack the binary encoding as typed columns", () => {
+    const simulation = createSimulation(3);
+    simulation.init();
+    run(simulation, 0, 20);
+
+    const snapshot = createSnapshot(simulation);
+    const buffer = encodeSnapshot(snapshot);
+    const { nodes, edges, activeNodes } = snapshot.network;
+
+    // float32 grid, 57 bytes per node, 4 per connection and active id, 48 per edge
+    const columnBytes =
+      snapshot.environment.nutrients.length * 4 +
+      nodes.length * 57 +
+      nodes.reduce((sum, node) => sum + node.connections.length, 0) * 4 +
+      activeNodes.length * 4 +
+      edges.length * 48;
+    const headerBytes = new TextEncoder().encode(
+      snapshotToJSON({
+        ...snapshot,
+        network: { ...snapshot.network, nodes: [], edges: [], activeNodes: [] },
+        environment: { ...snapshot.environment, nutrients: [] },
+      }),
+    ).length;
+    expect(buffer.byteLength).toBe(24 + headerBytes + columnBytes);
+
+    expect(() =>
+      decodeSnapshot(buffer.slice(0, buffer.byteLength - 1)),
+    ).toThrow(SnapshotError);
+  });
+
+  it("should resume bit-for-bit from a binary snapshot", () => {
+    const reference = createSimulation(11);
+    reference.init();
+    run(reference, 0, 40);
+
+    const checkpointed = createSimulation(11);
+    checkpointed.init();
+    run(checkpointed, 0, 20);
+    const buffer = encodeSnapshot(createSnapshot(checkpointed));
+
+    const resumed = createSimulation(11);
+    restoreSnapshot(resumed, decodeSnapshot(buffer));
+    run(resumed, 20, 40);
+
+    expect(createSnapshot(resumed)).toEqual(createSnapshot(reference));
+  });
+
+  it("should resume a hydraulic run bit-for-bit from a binary snapshot", () => {
+    config.TRANSPORT_MODEL = "hydraulic";
+    config.EDGE_ADAPTATION_RATE = 0.05;
+    const reference = createSimulation(4);
+    reference.init();
+    run(reference, 0, 40);
+
+    const checkpointed = createSimulation(4);
+    checkpointed.init();
+    run(checkpointed, 0, 20);
+    const snapshot = createSnapshot(checkpointed);
+    expect(
+      snapshot.network.nodes.some((node) => node.pressure !== undefined),
+    ).toBe(true);
+
+    const resumed = createSimulation(8);
+    restoreSnapshot(resumed, decodeSnapshot(encodeSnapshot(snapshot)));
+    run(resumed, 20, 40);
+
+    expect(snapshotToJSON(createSnapshot(resumed))).toBe(
+      snapshotToJSON(createSnapshot(reference)),
+    );
+  });
+
+  it("should restore the config the snapshot was taken with", () => {
+    const simulation = createSimulation(1);
+    simulation.init();
+    config.STEP_SIZE = 0.123;
+    const snapshot = createSnapshot(simulation);
+
+    config.STEP_SIZE = 4;
+    restoreSnapshot(simulation, snapshot);
+
+    expect(config.STEP_SIZE).toBe(0.123);
+  });
+
+  it("should report the restored colony's segments to observers", () => {
+    const source = createSimulation(5);
+    source.init();
+    run(source, 0, 20);
+    const snapshot = createSnapshot(source);
+
+    const simulation = createSimulation(6);
+    simulation.init();
+    const events: string[] = [];
+    const segments: SegmentEvent[] = [];
+    simulation.addObserver({
+      onReset: () => events.push("reset"),
+      onSegment: (event) => {
+        events.push("segment");
+        segments.push(event);
+      },
+    });
+    restoreSnapshot(simulation, snapshot);
+
+    const network = simulation.getNetwork();
+    const edges = network.getEdges();
+    expect(edges.length).toBeGreaterThan(0);
+    expect(events[0]).toBe("reset");
+    expect(segments.map((s) => [s.fromNodeId, s.toNodeId])).toEqual(
+      edges.map((e) => [e.source, e.target]),
+    );
+    for (const segment of segments) {
+      const to = network.getNode(segment.toNodeId)!;
+      expect(segment.to).toEqual({ x: to.x, y: to.y, z: to.z });
+      expect(segment.tip.growthType).toBe(to.growthType);
+    }
+  });
+
+  it("should reject snapshots with an invalid config", () => {
+    const simulation = createSimulation(1);
+    simulation.init();
+    const snapshot = createSnapshot(simulation);
+    snapshot.config.ENV_GRID_CELL_SIZE = 0;
+
+    expect(() => restoreSnapshot(simulation, snapshot)).toThrow(
+      /ENV_GRID_CELL_SIZE: 0 is outside the range/,
+    );
+    expect(() => restoreSnapshot(simulation, snapshot)).toThrow(SnapshotError);
+    expect(config.ENV_GRID_CELL_SIZE).toBe(originalConfig.ENV_GRID_CELL_SIZE);
+  });
+
+  it.each([
+    [
+      "the nutrient grid is short",
+      (snapshot: SimulationSnapshot) => snapshot.environment.nutrients.pop(),
+      /nutrient data length/,
+    ],
+    [
+      "an edge names a missing node",
+      (snapshot: SimulationSnapshot) => {
+        snapshot.network.edges[0].target = snapshot.network.nextId;
+      },
+      /edge \d+ refers to missing node/,
+    ],
+    [
+      "a tip names a missing node",
+      (snapshot: SimulationSnapshot) => {
+        snapshot.simulation.tips[0].nodeId = -1;
+      },
+      /tip 0 refers to missing node -1/,
+    ],
+    [
+      "a node has no position",
+      (snapshot: SimulationSnapshot) => {
+        delete (snapshot.network.nodes[3] as Partial<NetworkNode>).x;
+      },
+      /node 3 has no numeric x/,
+    ],
+    [
+      "a node pressure is not finite",
+      (snapshot: SimulationSnapshot) => {
+        snapshot.network.nodes[2].pressure = Infinity;
+      },
+      /node \d+ has an invalid pressure/,
+    ],
+    [
+      "the tips are missing",
+      (snapshot: SimulationSnapshot) => {
+        (snapshot.simulation as Partial<SimulationState>).tips = undefined;
+      },
+      /tips is not an array/,
+    ],
+  ])("should leave the simulation untouched when %s", (_, corrupt, message) => {
+    const simulation = createSimulation(1);
+    simulation.init();
+    run(simulation, 0, 5);
+    const before = snapshotToJSON(createSnapshot(simulation));
+
+    const other = createSimulation(2);
+    other.init();
+    run(other, 0, 5);
+    const snapshot = createSnapshot(other);
+    snapshot.config.STEP_SIZE = 0.123;
+    corrupt(snapshot);
+
+    expect(() => restoreSnapshot(simulation, snapshot)).toThrow(message);
+    expect(() => restoreSnapshot(simulation, snapshot)).toThrow(SnapshotError);
+    expect(config.STEP_SIZE).toBe(originalConfig.STEP_SIZE);
+    expect(snapshotToJSON(createSnapshot(simulation))).toBe(before);
+  });
+
+  it("should reject unsupported versions and malformed data", () => {
+    const simulation = createSimulation(1);
+    simulation.init();
+    const snapshot = createSnapshot(simulation);
+
+    expect(() =>
+      snapshotFromJSON(
+        snapshotToJSON({ ...snapshot, version: SNAPSHOT_VERSION + 1 }),
+      ),
+    ).toThrow(SnapshotError);
+    expect(() => snapshotFromJSON("{not json")).toThrow(SnapshotError);
+    expect(() => decodeSnapshot(new ArrayBuffer(16))).toThrow(SnapshotError);
+  });
+});
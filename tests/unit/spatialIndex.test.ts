@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SpatialIndex } from "../../src/spatialIndex";
+import { Random } from "../../src/random";
+
+describe("SpatialIndex", () => {
+  let index: SpatialIndex;
+
+  beforeEach(() => {
+    index = new SpatialIndex(2);
+  });
+
+  it("should find points within a radius, including negative coordinates", () => {
+    index.insertPoint(0, 0, 0, 0);
+    index.insertPoint(1, -1, -1, 0);
+    index.insertPoint(2, 5, 0, 0);
+
+    expect(index.queryRadius(0, 0, 0, 1.5).sort()).toEqual([0, 1]);
+    expect(index.queryRadius(0, 0, 0, 1.5, (id) => id !== 0)).toEqual([1]);
+  });
+
+  it("should move and remove points incrementally", () => {
+    index.insertPoint(7, 0, 0, 0);
+    index.insertPoint(7, 10, 10, 10);
+
+    expect(index.size).toBe(1);
+    expect(index.queryRadius(0, 0, 0, 1)).toEqual([]);
+    expect(index.queryRadius(10, 10, 10, 1)).toEqual([7]);
+
+    index.removePoint(7);
+    expect(index.size).toBe(0);
+    expect(index.queryRadius(10, 10, 10, 1)).toEqual([]);
+  });
+
+  it("should match a brute-force nearest-neighbour search", () => {
+    const rng = new Random(5);
+    const points: [number, number, number][] = [];
+    for (let i = 0; i < 200; i++) {
+      const point: [number, number, number] = [
+        (rng.next() - 0.5) * 40,
+        (rng.next() - 0.5) * 40,
+        (rng.next() - 0.5) * 40,
+      ];
+      points.push(point);
+      index.insertPoint(i, ...point);
+    }
+
+    for (let q = 0; q < 20; q++) {
+      const [x, y, z] = [
+        (rng.next() - 0.5) * 60,
+        (rng.next() - 0.5) * 60,
+        (rng.next() - 0.5) * 60,
+      ];
+      const distances = points.map(([px, py, pz]) =>
+        Math.hypot(px - x, py - y, pz - z),
+      );
+      const expected = distances.indexOf(Math.min(...distances));
+
+      expect(index.nearest(x, y, z)?.id).toBe(expected);
+    }
+  });
+
+  it("should respect the maximum distance and filter in nearest()", () => {
+    index.insertPoint(0, 0, 0, 0);
+    index.insertPoint(1, 3, 0, 0);
+
+    expect(index.nearest(2, 0, 0, 0.5)).toBeUndefined();
+    expect(index.nearest(0.5, 0, 0, 10, (id) => id !== 0)).toEqual({
+      id: 1,
+      distance: 2.5,
+    });
+  });
+
+  it("should measure distance to long segments spanning many cells", () => {
+    index.insertPoint(0, -10, 0, 0);
+    index.insertPoint(1, 10, 0, 0);
+    index.insertSegment(0, 1);
+
+    const hit = index.nearestSegment(5, 0.5, 0, 1);
+    expect(hit).toMatchObject({ a: 0, b: 1, distance: 0.5 });
+    expect(hit!.t).toBeCloseTo(0.75);
+
+    expect(index.nearestSegment(5, 0.5, 0, 1, () => false)).toBeUndefined();
+  });
+
+  it("should drop segments when they or their endpoints are removed", () => {
+    index.insertPoint(0, 0, 0, 0);
+    index.insertPoint(1, 4, 0, 0);
+    index.insertPoint(2, 0, 4, 0);
+    index.insertSegment(0, 1);
+    index.insertSegment(0, 2);
+
+    index.removeSegment(1, 0);
+    expect(index.nearestSegment(2, 0.1, 0, 1)).toBeUndefined();
+
+    index.removePoint(2);
+    expect(index.nearestSegment(0.1, 2, 0, 1)).toBeUndefined();
+  });
+});
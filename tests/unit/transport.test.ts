@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  TransportEdge,
+  computeEdgeFluxes,
+  poiseuilleConductance,
+  solvePressures,
+} from "../../src/transport";
+
+describe("transport", () => {
+  it("should scale conductance with radius^4 and inverse length", () => {
+    const base = poiseuilleConductance(1, 2);
+
+    expect(base).toBeCloseTo(Math.PI / 16);
+    expect(poiseuilleConductance(2, 2)).toBeCloseTo(base * 16);
+    expect(poiseuilleConductance(1, 4)).toBeCloseTo(base / 2);
+    expect(poiseuilleConductance(1, 0)).toBeLessThan(Infinity);
+  });
+
+  it("should drop pressure linearly along a uniform chain", () => {
+    const edges: TransportEdge[] = [0, 1, 2, 3].map((i) => ({
+      source: i,
+      target: i + 1,
+      conductance: 1,
+    }));
+
+    const { pressures, converged } = solvePressures(
+      edges,
+      new Map([
+        [0, 100],
+        [4, 0],
+      ]),
+    );
+
+    expect(converged).toBe(true);
+    expect(pressures.get(1)).toBeCloseTo(75);
+    expect(pressures.get(2)).toBeCloseTo(50);
+    expect(pressures.get(3)).toBeCloseTo(25);
+    for (const flux of computeEdgeFluxes(edges, pressures)) {
+      expect(flux).toBeCloseTo(25);
+    }
+  });
+
+  it("should split flux between parallel paths by conductance", () => {
+    // Source 0 and sink 3 joined through node 1 (wide) and node 2 (narrow)
+    const edges: TransportEdge[] = [
+      { source: 0, target: 1, conductance: 3 },
+      { source: 1, target: 3, conductance: 3 },
+      { source: 0, target: 2, conductance: 1 },
+      { source: 2, target: 3, conductance: 1 },
+    ];
+
+    const { pressures } = solvePressures(
+      edges,
+      new Map([
+        [0, 10],
+        [3, 0],
+      ]),
+    );
+    const fluxes = computeEdgeFluxes(edges, pressures);
+
+    expect(fluxes[0]).toBeCloseTo(15);
+    expect(fluxes[2]).toBeCloseTo(5);
+    // Kirchhoff: free nodes conserve flux
+    expect(fluxes[0]).toBeCloseTo(fluxes[1]);
+    expect(fluxes[2]).toBeCloseTo(fluxes[3]);
+  });
+
+  it("should leave components without fixed nodes out", () => {
+    const edges: TransportEdge[] = [
+      { source: 0, target: 1, conductance: 1 },
+      { source: 2, target: 3, conductance: 1 },
+    ];
+
+    const { pressures } = solvePressures(edges, new Map([[0, 5]]));
+
+    expect(pressures.get(1)).toBeCloseTo(5);
+    expect(pressures.has(2)).toBe(false);
+    expect(computeEdgeFluxes(edges, pressures)).toEqual([0, 0]);
+  });
+
+  it("should resume from a warm start", () => {
+    // A long chain needs more iterations than one call allows
+    const edges: TransportEdge[] = Array.from({ length: 150 }, (_, i) => ({
+      source: i,
+      target: i + 1,
+      conductance: 1,
+    }));
+    const fixed = new Map([
+      [0, 150],
+      [150, 0],
+    ]);
+
+    const cold = solvePressures(edges, fixed);
+    expect(cold.converged).toBe(false);
+
+    let solution = cold;
+    for (let call = 0; call < 10 && !solution.converged; call++) {
+      solution = solvePressures(edges, fixed, solution.pressures);
+    }
+    expect(solution.converged).toBe(true);
+    expect(solution.pressures.get(50)).toBeCloseTo(100);
+
+    const again = solvePressures(edges, fixed, solution.pressures);
+    expect(again.converged).toBe(true);
+    expect(again.iterations).toBe(0);
+  });
+
+  it("should not solve regions bounded by a single pressure", () => {
+    // Nodes 1 and 2 lie between two sinks, node 4 between a source and a sink
+    const edges: TransportEdge[] = [
+      { source: 0, target: 1, conductance: 1 },
+      { source: 1, target: 2, conductance: 1 },
+      { source: 2, target: 3, conductance: 1 },
+      { source: 3, target: 4, conductance: 1 },
+      { source: 4, target: 5, conductance: 1 },
+    ];
+
+    const { pressures, iterations } = solvePressures(
+      edges,
+      new Map([
+        [0, 0],
+        [3, 0],
+        [5, 8],
+      ]),
+    );
+
+    expect(pressures.get(1)).toBe(0);
+    expect(pressures.get(2)).toBe(0);
+    expect(pressures.get(4)).toBeCloseTo(4);
+    expect(iterations).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { config } from "../../src/constants";
+import { WorldFrame, growthRadiusFor } from "../../src/worldFrame";
+
+const originalConfig = { ...config };
+
+describe("WorldFrame", () => {
+  beforeEach(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  it("should centre the growth volume on the origin and enclose the growth sphere", () => {
+    config.GROWTH_RADIUS_FACTOR = 0.25;
+    config.GROWTH_HEIGHT_FACTOR = 1;
+    config.ENV_GRID_CELL_SIZE = 2;
+
+    const frame = WorldFrame.forGrowthVolume(80, 40);
+    const radius = growthRadiusFor(80, 40);
+
+    expect(radius).toBe(10);
+    expect(frame.center).toEqual({ x: 0, y: 0, z: 0 });
+    expect(frame.origin).toEqual({ x: -10, y: -10, z: -10 });
+    expect([frame.cols, frame.rows, frame.layers]).toEqual([10, 10, 10]);
+    // Every point of the sphere maps to a cell inside the grid
+    for (const [x, y, z] of [
+      [-radius, 0, 0],
+      [radius - 1e-9, 0, 0],
+      [0, 0, -radius],
+      [0, radius - 1e-9, 0],
+    ]) {
+      const cell = frame.worldToCell(x, y, z);
+      expect(frame.containsCell(cell.x, cell.y, cell.z)).toBe(true);
+    }
+  });
+
+  it("should convert between world positions and cells", () => {
+    const frame = new WorldFrame(
+      { x: -4, y: -4, z: -2 },
+      { x: 8, y: 8, z: 4 },
+      2,
+    );
+
+    expect(frame.worldToCell(0, 0, 0)).toEqual({ x: 2, y: 2, z: 1 });
+    expect(frame.worldToCell(-4.5, 0, 0).x).toBe(-1);
+    expect(frame.cellToWorld(2, 2, 1)).toEqual({ x: 1, y: 1, z: 1 });
+    expect(frame.containsCell(4, 0, 0)).toBe(false);
+
+    const restored = WorldFrame.fromState(frame.toState());
+    expect(restored.toState()).toEqual(frame.toState());
+    expect(restored.layers).toBe(2);
+  });
+});